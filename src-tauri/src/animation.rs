@@ -0,0 +1,130 @@
+use std::io::Cursor;
+
+use image::codecs::gif::GifDecoder;
+use image::codecs::webp::WebPDecoder;
+use image::{AnimationDecoder, Frames, RgbaImage};
+use serde::{Deserialize, Serialize};
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Default, Deserialize)]
+#[serde(rename_all = "kebab-case")]
+pub(crate) enum AnimationMode {
+  #[default]
+  Keep,
+  FirstFrame,
+}
+
+#[derive(Debug, Clone, Copy, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct AnimationSummary {
+  pub(crate) frame_count: u32,
+  pub(crate) kept: bool,
+}
+
+pub(crate) struct Animation {
+  /// Fully composited frames with their display time in milliseconds. Empty unless they were asked for.
+  pub(crate) frames: Vec<(RgbaImage, u32)>,
+  pub(crate) frame_count: u32,
+  /// WebP semantics: how many times to play, 0 for forever.
+  pub(crate) loop_count: u16,
+}
+
+const NETSCAPE_BLOCK: &[u8] = b"NETSCAPE2.0";
+
+fn is_animated_webp(bytes: &[u8]) -> bool {
+  bytes.len() > 20 && bytes.starts_with(b"RIFF") && &bytes[8..16] == b"WEBPVP8X" && bytes[20] & 0x02 != 0
+}
+
+/// GIF stores the repeats after the first play (0 for forever); without the block it plays once.
+fn gif_loop_count(bytes: &[u8]) -> u16 {
+  let block = bytes
+    .windows(NETSCAPE_BLOCK.len())
+    .position(|window| window == NETSCAPE_BLOCK)
+    .and_then(|at| bytes.get(at + NETSCAPE_BLOCK.len()..at + NETSCAPE_BLOCK.len() + 4));
+
+  match block {
+    Some(&[3, 1, low, high]) => match u16::from_le_bytes([low, high]) {
+      0 => 0,
+      repeats => repeats.saturating_add(1),
+    },
+    _ => 1,
+  }
+}
+
+fn webp_loop_count(bytes: &[u8]) -> u16 {
+  let mut offset = 12;
+
+  while offset + 8 <= bytes.len() {
+    let length = u32::from_le_bytes(bytes[offset + 4..offset + 8].try_into().unwrap_or_default()) as usize;
+    if &bytes[offset..offset + 4] == b"ANIM" {
+      return bytes
+        .get(offset + 12..offset + 14)
+        .map_or(0, |count| u16::from_le_bytes([count[0], count[1]]));
+    }
+    offset += 8 + length + length % 2;
+  }
+
+  0
+}
+
+/// Walks the frames one at a time, so counting them only ever holds a single composited frame.
+fn read_frames(frames: Frames, keep_frames: bool) -> Option<(Vec<(RgbaImage, u32)>, u32)> {
+  let mut kept = Vec::new();
+  let mut count = 0u32;
+
+  for frame in frames {
+    let frame = frame.ok()?;
+    count += 1;
+    if keep_frames {
+      let (numerator, denominator) = frame.delay().numer_denom_ms();
+      kept.push((frame.into_buffer(), numerator.checked_div(denominator).unwrap_or(0)));
+    }
+  }
+
+  Some((kept, count))
+}
+
+/// Reads an animated GIF or WebP, mirroring `decodeAnimation` in `src/conversion.ts`: frames are only kept
+/// when `decode_frames` is set, otherwise just counted. `None` for stills and for anything the frame decoders reject.
+pub(crate) fn decode(bytes: &[u8], decode_frames: bool) -> Option<Animation> {
+  let ((frames, frame_count), loop_count) = if bytes.starts_with(b"GIF8") {
+    (
+      read_frames(GifDecoder::new(Cursor::new(bytes)).ok()?.into_frames(), decode_frames)?,
+      gif_loop_count(bytes),
+    )
+  } else if is_animated_webp(bytes) {
+    (
+      read_frames(WebPDecoder::new(Cursor::new(bytes)).ok()?.into_frames(), decode_frames)?,
+      webp_loop_count(bytes),
+    )
+  } else {
+    return None;
+  };
+
+  (frame_count > 1).then_some(Animation {
+    frames,
+    frame_count,
+    loop_count,
+  })
+}
+
+/// Encodes frames that were all rendered at the same size. Timestamps are where each frame starts.
+pub(crate) fn encode_webp(
+  frames: &[RgbaImage],
+  animation: &Animation,
+  config: &webp::WebPConfig,
+) -> Result<Vec<u8>, String> {
+  let (width, height) = frames.first().map_or((1, 1), |frame| frame.dimensions());
+  let mut encoder = webp::AnimEncoder::new(width, height, config);
+  encoder.set_loop_count(i32::from(animation.loop_count));
+
+  let mut timestamp = 0i32;
+  for (frame, (_, delay)) in frames.iter().zip(&animation.frames) {
+    encoder.add_frame(webp::AnimFrame::from_rgba(frame.as_raw(), width, height, timestamp));
+    timestamp = timestamp.saturating_add(i32::try_from(*delay).unwrap_or(i32::MAX));
+  }
+
+  encoder
+    .try_encode()
+    .map(|memory| memory.to_vec())
+    .map_err(|error| format!("Animated WebP encoding failed: {error:?}"))
+}
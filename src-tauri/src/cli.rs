@@ -0,0 +1,629 @@
+use std::collections::HashSet;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::time::{SystemTime, UNIX_EPOCH};
+
+use sha2::{Digest, Sha256};
+
+use crate::convert::{self, ConvertResult};
+use crate::presets::{self, Preset};
+use crate::quality::QualityFloorAction;
+
+const EXIT_OK: i32 = 0;
+const EXIT_FAILED: i32 = 1;
+const EXIT_USAGE: i32 = 2;
+
+const IMAGE_EXTENSIONS: [&str; 13] = [
+  "avif", "bmp", "gif", "heic", "heif", "ico", "jpg", "jpeg", "png", "svg", "tif", "tiff", "webp",
+];
+
+const USAGE: &str = "Usage:
+  webpeezy convert <files or folders>... --out <folder> [options]
+  webpeezy presets [--presets <file>]...
+
+Options:
+  -p, --preset <name>       Preset name or id (default: the only preset in --presets, if there is one)
+      --presets <file>      Load presets exported from the app; may be repeated
+  -o, --out <folder>        Folder to write converted files to
+      --keep-folders        Recreate the subfolders of folder inputs under --out
+      --on-conflict <mode>  rename (default), overwrite or skip when a file already exists
+  -h, --help                Show this help
+
+Exit codes: 0 when every file converted, 1 when any file failed, 2 for usage errors.";
+
+#[derive(Clone, Copy, PartialEq, Eq)]
+enum ConflictPolicy {
+  Rename,
+  Overwrite,
+  Skip,
+}
+
+struct ConvertArgs {
+  inputs: Vec<PathBuf>,
+  preset: Option<String>,
+  preset_files: Vec<PathBuf>,
+  out: Option<PathBuf>,
+  keep_folders: bool,
+  on_conflict: ConflictPolicy,
+}
+
+struct InputFile {
+  path: PathBuf,
+  relative_folder: Vec<String>,
+}
+
+struct Totals {
+  converted: usize,
+  skipped: usize,
+  failed: usize,
+  original_bytes: u64,
+  converted_bytes: u64,
+}
+
+/// Runs a command-line subcommand and returns its exit code, or `None` to start the app normally.
+pub fn run(args: &[String]) -> Option<i32> {
+  match args.first().map(String::as_str) {
+    Some("convert") => Some(convert_command(&args[1..])),
+    Some("presets") => Some(presets_command(&args[1..])),
+    Some("help" | "--help" | "-h") => {
+      println!("{USAGE}");
+      Some(EXIT_OK)
+    }
+    _ => None,
+  }
+}
+
+fn usage_error(message: &str) -> i32 {
+  eprintln!("webpeezy: {message}\n\n{USAGE}");
+  EXIT_USAGE
+}
+
+fn take_value<'a>(args: &mut impl Iterator<Item = &'a String>, flag: &str) -> Result<&'a String, String> {
+  args.next().ok_or_else(|| format!("{flag} needs a value."))
+}
+
+fn parse_convert_args(args: &[String]) -> Result<ConvertArgs, String> {
+  let mut parsed = ConvertArgs {
+    inputs: Vec::new(),
+    preset: None,
+    preset_files: Vec::new(),
+    out: None,
+    keep_folders: false,
+    on_conflict: ConflictPolicy::Rename,
+  };
+  let mut args = args.iter();
+
+  while let Some(arg) = args.next() {
+    match arg.as_str() {
+      "-p" | "--preset" => parsed.preset = Some(take_value(&mut args, arg)?.clone()),
+      "--presets" => parsed.preset_files.push(PathBuf::from(take_value(&mut args, arg)?)),
+      "-o" | "--out" => parsed.out = Some(PathBuf::from(take_value(&mut args, arg)?)),
+      "--keep-folders" => parsed.keep_folders = true,
+      "--on-conflict" => {
+        parsed.on_conflict = match take_value(&mut args, arg)?.as_str() {
+          "rename" => ConflictPolicy::Rename,
+          "overwrite" => ConflictPolicy::Overwrite,
+          "skip" => ConflictPolicy::Skip,
+          other => {
+            return Err(format!(
+              "--on-conflict must be rename, overwrite or skip, not \"{other}\"."
+            ))
+          }
+        }
+      }
+      flag if flag.starts_with('-') && flag.len() > 1 => return Err(format!("Unknown option {flag}.")),
+      input => parsed.inputs.push(PathBuf::from(input)),
+    }
+  }
+
+  Ok(parsed)
+}
+
+fn load_presets(files: &[PathBuf]) -> Result<(Vec<Preset>, Vec<Preset>), String> {
+  let mut loaded = Vec::new();
+
+  for file in files {
+    let json = fs::read_to_string(file).map_err(|error| format!("Could not read {}: {error}", file.display()))?;
+    let presets = presets::parse_presets(&json)
+      .map_err(|error| format!("{} is not a WebPeezy preset file: {error}", file.display()))?;
+    loaded.extend(presets);
+  }
+
+  let mut all = presets::builtin_presets();
+  all.extend(loaded.iter().cloned());
+  Ok((all, loaded))
+}
+
+fn presets_command(args: &[String]) -> i32 {
+  let mut files = Vec::new();
+  let mut args = args.iter();
+
+  while let Some(arg) = args.next() {
+    match arg.as_str() {
+      "--presets" => match take_value(&mut args, arg) {
+        Ok(file) => files.push(PathBuf::from(file)),
+        Err(message) => return usage_error(&message),
+      },
+      "-h" | "--help" => {
+        println!("{USAGE}");
+        return EXIT_OK;
+      }
+      other => return usage_error(&format!("Unexpected argument {other}.")),
+    }
+  }
+
+  match load_presets(&files) {
+    Ok((presets, _)) => {
+      for preset in presets {
+        println!("{:<24} {}", preset.id, preset.name);
+      }
+      EXIT_OK
+    }
+    Err(message) => usage_error(&message),
+  }
+}
+
+fn is_hidden(path: &Path) -> bool {
+  path
+    .file_name()
+    .and_then(|name| name.to_str())
+    .is_some_and(|name| name.starts_with('.'))
+}
+
+fn is_image_path(path: &Path) -> bool {
+  path
+    .extension()
+    .and_then(|extension| extension.to_str())
+    .is_some_and(|extension| IMAGE_EXTENSIONS.contains(&extension.to_ascii_lowercase().as_str()))
+}
+
+fn collect_folder(folder: &Path, relative_folder: Vec<String>, files: &mut Vec<InputFile>) -> std::io::Result<()> {
+  let mut entries = fs::read_dir(folder)?.collect::<Result<Vec<_>, _>>()?;
+  entries.sort_by_key(|entry| entry.file_name());
+
+  for entry in entries {
+    let path = entry.path();
+    let file_type = entry.file_type()?;
+    if is_hidden(&path) || file_type.is_symlink() {
+      continue;
+    }
+
+    if file_type.is_dir() {
+      let mut nested = relative_folder.clone();
+      nested.push(entry.file_name().to_string_lossy().into_owned());
+      collect_folder(&path, nested, files)?;
+    } else if is_image_path(&path) {
+      files.push(InputFile {
+        path,
+        relative_folder: relative_folder.clone(),
+      });
+    }
+  }
+
+  Ok(())
+}
+
+/// Expands folder inputs into their image files, remembering the subfolders relative to the folder's parent.
+fn collect_inputs(inputs: &[PathBuf]) -> Result<Vec<InputFile>, String> {
+  let mut files = Vec::new();
+
+  for input in inputs {
+    if input.is_dir() {
+      let root = input
+        .file_name()
+        .map(|name| name.to_string_lossy().into_owned())
+        .into_iter()
+        .collect();
+      collect_folder(input, root, &mut files)
+        .map_err(|error| format!("Could not read {}: {error}", input.display()))?;
+    } else if input.is_file() {
+      files.push(InputFile {
+        path: input.clone(),
+        relative_folder: Vec::new(),
+      });
+    } else {
+      return Err(format!("{} does not exist.", input.display()));
+    }
+  }
+
+  Ok(files)
+}
+
+fn sanitize_segment(value: &str) -> String {
+  let cleaned: String = value
+    .chars()
+    .filter(|character| !character.is_control())
+    .map(|character| {
+      if "<>:\"/\\|?*".contains(character) {
+        '-'
+      } else {
+        character
+      }
+    })
+    .collect();
+  let collapsed = cleaned.split_whitespace().collect::<Vec<_>>().join(" ");
+  collapsed
+    .trim_end_matches(['.', ' '])
+    .trim_start_matches('.')
+    .chars()
+    .take(120)
+    .collect()
+}
+
+/// Days since 1970-01-01 to a civil date, so `{date}` needs no date crate. Uses UTC.
+fn format_date(time: SystemTime) -> String {
+  let days = time
+    .duration_since(UNIX_EPOCH)
+    .map_or(0, |duration| duration.as_secs() / 86_400) as i64;
+  let z = days + 719_468;
+  let era = z.div_euclid(146_097);
+  let day_of_era = z.rem_euclid(146_097);
+  let year_of_era = (day_of_era - day_of_era / 1460 + day_of_era / 36_524 - day_of_era / 146_096) / 365;
+  let day_of_year = day_of_era - (365 * year_of_era + year_of_era / 4 - year_of_era / 100);
+  let month_index = (5 * day_of_year + 2) / 153;
+  let day = day_of_year - (153 * month_index + 2) / 5 + 1;
+  let month = if month_index < 10 {
+    month_index + 3
+  } else {
+    month_index - 9
+  };
+  let year = year_of_era + era * 400 + i64::from(month <= 2);
+  format!("{year:04}-{month:02}-{day:02}")
+}
+
+struct NameContext<'a> {
+  stem: &'a str,
+  preset: &'a Preset,
+  result: &'a ConvertResult,
+  quality: u8,
+  date: &'a str,
+  index: usize,
+  bytes: &'a [u8],
+}
+
+/// Mirrors `renderFileName` in `src/fileNames.ts`, returning folder segments followed by the file name.
+fn render_file_name(context: &NameContext, extension: &str, suffix: &str) -> Vec<String> {
+  // A trailing `.{ext}` is optional in templates, since the extension is always appended below.
+  let template = context.preset.file_name_template.trim();
+  let template = template.strip_suffix(".{ext}").unwrap_or(template);
+  let render_segment = |segment: &str| {
+    let mut output = String::new();
+    let mut rest = segment;
+
+    while let Some(start) = rest.find('{') {
+      output.push_str(&rest[..start]);
+      let Some(length) = rest[start..].find('}') else {
+        output.push_str(&rest[start..]);
+        rest = "";
+        break;
+      };
+      let token = &rest[start + 1..start + length];
+      match token {
+        "stem" => output.push_str(context.stem),
+        "preset" => output.push_str(&context.preset.name),
+        "width" => output.push_str(&context.result.output_width.to_string()),
+        "height" => output.push_str(&context.result.output_height.to_string()),
+        "quality" => output.push_str(&context.quality.to_string()),
+        "date" => output.push_str(context.date),
+        "index" => output.push_str(&context.index.to_string()),
+        "hash" => {
+          let digest = Sha256::digest(context.bytes);
+          output.extend(digest.iter().take(4).map(|byte| format!("{byte:02x}")));
+        }
+        _ => output.push_str(&rest[start..=start + length]),
+      }
+      rest = &rest[start + length + 1..];
+    }
+
+    output.push_str(rest);
+    sanitize_segment(&output)
+  };
+
+  let mut segments: Vec<String> = template.split(['/', '\\']).map(render_segment).collect();
+  let file = segments
+    .pop()
+    .filter(|segment| !segment.is_empty())
+    .unwrap_or_else(|| context.stem.to_string());
+  let mut path: Vec<String> = segments
+    .into_iter()
+    .map(|segment| if segment.is_empty() { "untitled".into() } else { segment })
+    .collect();
+  path.push(format!("{file}{suffix}.{extension}"));
+  path
+}
+
+/// Picks the output path under the conflict policy. `None` means the file should be skipped.
+fn resolve_output_path(
+  out: &Path,
+  folder: &[String],
+  render: impl Fn(&str) -> Vec<String>,
+  policy: ConflictPolicy,
+  reserved: &mut HashSet<PathBuf>,
+) -> Option<(PathBuf, bool)> {
+  let mut counter = 1;
+
+  loop {
+    let suffix = if counter == 1 {
+      String::new()
+    } else {
+      format!("-{counter}")
+    };
+    let path = folder
+      .iter()
+      .cloned()
+      .chain(render(&suffix))
+      .fold(out.to_path_buf(), |path, segment| path.join(segment));
+    counter += 1;
+
+    if reserved.contains(&path) {
+      continue;
+    }
+
+    if !path.exists() {
+      reserved.insert(path.clone());
+      return Some((path, false));
+    }
+
+    if counter == 2 {
+      match policy {
+        ConflictPolicy::Skip => return None,
+        ConflictPolicy::Overwrite => {
+          reserved.insert(path.clone());
+          return Some((path, true));
+        }
+        ConflictPolicy::Rename => {}
+      }
+    }
+  }
+}
+
+fn format_bytes(bytes: u64) -> String {
+  if bytes < 1024 {
+    format!("{bytes} B")
+  } else if bytes < 1024 * 1024 {
+    format!("{:.1} KB", bytes as f64 / 1024.0)
+  } else {
+    format!("{:.2} MB", bytes as f64 / (1024.0 * 1024.0))
+  }
+}
+
+fn savings_percent(original: u64, converted: u64) -> i64 {
+  if original == 0 {
+    return 0;
+  }
+  ((1.0 - converted as f64 / original as f64) * 100.0).round() as i64
+}
+
+fn convert_command(args: &[String]) -> i32 {
+  if args.iter().any(|arg| arg == "-h" || arg == "--help") {
+    println!("{USAGE}");
+    return EXIT_OK;
+  }
+
+  let args = match parse_convert_args(args) {
+    Ok(args) => args,
+    Err(message) => return usage_error(&message),
+  };
+
+  let Some(out) = args.out.clone() else {
+    return usage_error("Choose where converted files go with --out <folder>.");
+  };
+
+  if args.inputs.is_empty() {
+    return usage_error("Add at least one file or folder to convert.");
+  }
+
+  let (all_presets, loaded_presets) = match load_presets(&args.preset_files) {
+    Ok(presets) => presets,
+    Err(message) => return usage_error(&message),
+  };
+
+  let preset = match (&args.preset, loaded_presets.as_slice()) {
+    (Some(query), _) => match presets::find_preset(&all_presets, query) {
+      Some(preset) => preset.clone(),
+      None => {
+        return usage_error(&format!(
+          "There is no preset called \"{query}\". Run `webpeezy presets` to list them."
+        ))
+      }
+    },
+    (None, [only]) => only.clone(),
+    (None, _) => return usage_error("Choose a preset with --preset <name>."),
+  };
+
+  if let Some(problem) = preset.watermark_problem() {
+    return usage_error(&format!("The preset \"{}\" {problem}.", preset.name));
+  }
+
+  let inputs = match collect_inputs(&args.inputs) {
+    Ok(inputs) if inputs.is_empty() => return usage_error("None of the inputs are images WebPeezy can convert."),
+    Ok(inputs) => inputs,
+    Err(message) => return usage_error(&message),
+  };
+
+  if let Err(error) = fs::create_dir_all(&out) {
+    eprintln!("webpeezy: Could not create {}: {error}", out.display());
+    return EXIT_FAILED;
+  }
+
+  let date = format_date(SystemTime::now());
+  let extension = preset.format.extension();
+  let variants = preset.variants();
+  let uses_width_token = preset.file_name_template.contains("{width}");
+  let mut reserved = HashSet::new();
+  let mut totals = Totals {
+    converted: 0,
+    skipped: 0,
+    failed: 0,
+    original_bytes: 0,
+    converted_bytes: 0,
+  };
+
+  println!(
+    "Converting {} file{} with \"{}\"",
+    inputs.len(),
+    if inputs.len() == 1 { "" } else { "s" },
+    preset.name
+  );
+
+  for (position, input) in inputs.iter().enumerate() {
+    let label = input
+      .relative_folder
+      .iter()
+      .cloned()
+      .chain(input.path.file_name().map(|name| name.to_string_lossy().into_owned()))
+      .collect::<Vec<_>>()
+      .join("/");
+    let source = match fs::read(&input.path) {
+      Ok(source) => source,
+      Err(error) => {
+        totals.failed += 1;
+        eprintln!("fail  {label}: {error}");
+        continue;
+      }
+    };
+
+    let stem = input
+      .path
+      .file_stem()
+      .map(|stem| sanitize_segment(&stem.to_string_lossy()))
+      .unwrap_or_default();
+    let stem = if stem.is_empty() {
+      "converted-image".to_string()
+    } else {
+      stem
+    };
+    let folder = if args.keep_folders {
+      input
+        .relative_folder
+        .iter()
+        .map(|segment| sanitize_segment(segment))
+        .filter(|segment| !segment.is_empty())
+        .collect()
+    } else {
+      Vec::new()
+    };
+    let mut widths = HashSet::new();
+    let mut outputs = Vec::new();
+
+    for (width, options) in &variants {
+      match convert::convert_bytes(&source, options) {
+        Ok((bytes, result)) if width.is_none() || widths.insert(result.output_width) => {
+          outputs.push((*width, bytes, result))
+        }
+        Ok(_) => {}
+        Err(error) => {
+          eprintln!("fail  {label}: {}", error.message());
+          outputs.clear();
+          break;
+        }
+      }
+    }
+
+    if outputs.is_empty() {
+      totals.failed += 1;
+      continue;
+    }
+
+    let lowest_ssim = outputs
+      .iter()
+      .filter_map(|(_, _, result)| result.quality_score.map(|score| score.ssim))
+      .fold(f64::INFINITY, f64::min);
+    let below_floor = preset.min_ssim.filter(|min_ssim| lowest_ssim < *min_ssim);
+
+    if let (Some(min_ssim), QualityFloorAction::Fail) = (below_floor, preset.min_ssim_action) {
+      eprintln!("fail  {label}: SSIM {lowest_ssim:.4} is below the preset's minimum of {min_ssim}");
+      totals.failed += 1;
+      continue;
+    }
+
+    let mut file_failed = false;
+
+    for (width, bytes, result) in &outputs {
+      let quality = result
+        .size_target
+        .as_ref()
+        .map_or(preset.quality, |target| target.quality);
+      let context = NameContext {
+        stem: &stem,
+        preset: &preset,
+        result,
+        quality,
+        date: &date,
+        index: position + 1,
+        bytes,
+      };
+      let width_suffix = if width.is_some() && !uses_width_token {
+        format!("-{}w", result.output_width)
+      } else {
+        String::new()
+      };
+      let render = |suffix: &str| render_file_name(&context, extension, &format!("{width_suffix}{suffix}"));
+
+      let Some((path, overwrote)) = resolve_output_path(&out, &folder, render, args.on_conflict, &mut reserved) else {
+        totals.skipped += 1;
+        println!("skip  {label}: the output already exists");
+        continue;
+      };
+
+      let written = path
+        .parent()
+        .map_or(Ok(()), fs::create_dir_all)
+        .and_then(|_| fs::write(&path, &bytes));
+      if let Err(error) = written {
+        eprintln!("fail  {label}: could not write {}: {error}", path.display());
+        file_failed = true;
+        break;
+      }
+
+      totals.converted += 1;
+      totals.original_bytes += result.original_size;
+      totals.converted_bytes += result.converted_size;
+
+      let budget_note = match &result.size_target {
+        Some(target) if !target.met => format!(", over the {} budget", format_bytes(target.max_bytes)),
+        _ => String::new(),
+      };
+      let quality_note = match (result.quality_score, preset.min_ssim) {
+        (Some(score), Some(min_ssim)) if score.ssim < min_ssim => {
+          format!(", SSIM {:.4} below the {min_ssim} minimum", score.ssim)
+        }
+        (Some(score), _) => format!(", SSIM {:.4}", score.ssim),
+        (None, _) => String::new(),
+      };
+      println!(
+        "ok    {label} -> {} ({} -> {}, {}% smaller, {}x{}{}{}{})",
+        path.display(),
+        format_bytes(result.original_size),
+        format_bytes(result.converted_size),
+        savings_percent(result.original_size, result.converted_size),
+        result.output_width,
+        result.output_height,
+        quality_note,
+        if overwrote { ", replaced existing file" } else { "" },
+        budget_note,
+      );
+    }
+
+    if file_failed {
+      totals.failed += 1;
+    }
+  }
+
+  println!(
+    "\nConverted {} file{}, skipped {}, failed {}. {} -> {} ({}% smaller).",
+    totals.converted,
+    if totals.converted == 1 { "" } else { "s" },
+    totals.skipped,
+    totals.failed,
+    format_bytes(totals.original_bytes),
+    format_bytes(totals.converted_bytes),
+    savings_percent(totals.original_bytes, totals.converted_bytes),
+  );
+
+  if totals.failed > 0 {
+    EXIT_FAILED
+  } else {
+    EXIT_OK
+  }
+}
@@ -0,0 +1,591 @@
+use std::fs;
+use std::io::Cursor;
+use std::path::Path;
+
+use image::codecs::jpeg::JpegEncoder;
+use image::{DynamicImage, ImageDecoder, ImageFormat, ImageReader, Rgba, RgbaImage};
+use ravif::{Img, RGBA8};
+use serde::{Deserialize, Serialize};
+
+use crate::animation::{self, Animation, AnimationMode, AnimationSummary};
+use crate::metadata::{self, Container, MetadataPolicy, SourceMetadata};
+use crate::quality::{self, QualityScore};
+use crate::resample::{self, ResampleFilter};
+use crate::watermark::{self, WatermarkOptions};
+
+const TARGET_SIZE_MIN_QUALITY: u8 = 10;
+const TARGET_SIZE_DOWNSCALE_STEP: f64 = 0.85;
+const TARGET_SIZE_MIN_DIMENSION: f64 = 64.0;
+const METADATA_CONTAINER_OVERHEAD: u64 = 64;
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub(crate) enum OutputFormat {
+  Webp,
+  Avif,
+  Jpeg,
+  Png,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Deserialize)]
+#[serde(rename_all = "kebab-case")]
+pub(crate) enum Compression {
+  Lossy,
+  Lossless,
+  NearLossless,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Deserialize)]
+#[serde(rename_all = "kebab-case")]
+pub(crate) enum FitMode {
+  ScaleDown,
+  Cover,
+  Contain,
+  Exact,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Deserialize)]
+#[serde(rename_all = "kebab-case")]
+pub(crate) enum CropAnchor {
+  Center,
+  Top,
+  Bottom,
+  Left,
+  Right,
+  TopLeft,
+  TopRight,
+  BottomLeft,
+  BottomRight,
+}
+
+impl CropAnchor {
+  pub(crate) fn position(self) -> (f64, f64) {
+    match self {
+      CropAnchor::Center => (0.5, 0.5),
+      CropAnchor::Top => (0.5, 0.0),
+      CropAnchor::Bottom => (0.5, 1.0),
+      CropAnchor::Left => (0.0, 0.5),
+      CropAnchor::Right => (1.0, 0.5),
+      CropAnchor::TopLeft => (0.0, 0.0),
+      CropAnchor::TopRight => (1.0, 0.0),
+      CropAnchor::BottomLeft => (0.0, 1.0),
+      CropAnchor::BottomRight => (1.0, 1.0),
+    }
+  }
+}
+
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct EncodeOptions {
+  pub(crate) format: OutputFormat,
+  pub(crate) max_width: Option<u32>,
+  pub(crate) max_height: Option<u32>,
+  pub(crate) fit: FitMode,
+  pub(crate) anchor: CropAnchor,
+  pub(crate) pad_color: String,
+  pub(crate) allow_upscale: bool,
+  #[serde(default)]
+  pub(crate) resampling: ResampleFilter,
+  #[serde(default)]
+  pub(crate) sharpen: u8,
+  pub(crate) reduce_percent: u32,
+  pub(crate) quality: u8,
+  pub(crate) compression: Compression,
+  pub(crate) near_lossless: u8,
+  pub(crate) alpha_quality: u8,
+  pub(crate) effort: u8,
+  pub(crate) max_bytes: Option<u64>,
+  pub(crate) allow_budget_downscale: bool,
+  pub(crate) metadata: MetadataPolicy,
+  #[serde(default)]
+  pub(crate) animation: AnimationMode,
+  #[serde(default)]
+  pub(crate) watermark: Option<WatermarkOptions>,
+}
+
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ConvertRequest {
+  input_path: String,
+  output_path: String,
+  options: EncodeOptions,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SizeTarget {
+  pub(crate) max_bytes: u64,
+  pub(crate) quality: u8,
+  pub(crate) met: bool,
+  pub(crate) downscaled: bool,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ConvertResult {
+  pub(crate) original_width: u32,
+  pub(crate) original_height: u32,
+  pub(crate) output_width: u32,
+  pub(crate) output_height: u32,
+  pub(crate) original_size: u64,
+  pub(crate) converted_size: u64,
+  pub(crate) size_target: Option<SizeTarget>,
+  pub(crate) quality_score: Option<QualityScore>,
+  pub(crate) animation: Option<AnimationSummary>,
+  pub(crate) metadata_kept: Vec<String>,
+  pub(crate) metadata_dropped: Vec<String>,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(tag = "kind", content = "message", rename_all = "kebab-case")]
+pub enum ConvertError {
+  UnsupportedInput(String),
+  Encode(String),
+  Io(String),
+}
+
+impl From<std::io::Error> for ConvertError {
+  fn from(error: std::io::Error) -> Self {
+    ConvertError::Io(error.to_string())
+  }
+}
+
+impl OutputFormat {
+  pub(crate) fn extension(self) -> &'static str {
+    match self {
+      OutputFormat::Webp => "webp",
+      OutputFormat::Avif => "avif",
+      OutputFormat::Jpeg => "jpg",
+      OutputFormat::Png => "png",
+    }
+  }
+}
+
+impl ConvertError {
+  pub(crate) fn message(&self) -> &str {
+    match self {
+      ConvertError::UnsupportedInput(message) | ConvertError::Encode(message) | ConvertError::Io(message) => message,
+    }
+  }
+}
+
+impl EncodeOptions {
+  pub(crate) fn quality_adjustable(&self) -> bool {
+    match self.format {
+      OutputFormat::Png => false,
+      OutputFormat::Webp => self.compression == Compression::Lossy,
+      OutputFormat::Avif | OutputFormat::Jpeg => true,
+    }
+  }
+
+  fn keeps_animation(&self) -> bool {
+    self.format == OutputFormat::Webp && self.animation == AnimationMode::Keep
+  }
+
+  /// Parses `#rrggbb` padding; `transparent` stays clear except in JPEG, which has no alpha.
+  fn pad_pixel(&self) -> Rgba<u8> {
+    let hex = self.pad_color.strip_prefix('#').filter(|hex| hex.len() == 6);
+    match hex.and_then(|hex| u32::from_str_radix(hex, 16).ok()) {
+      Some(value) => Rgba([(value >> 16) as u8, (value >> 8) as u8, value as u8, 255]),
+      None if self.format == OutputFormat::Jpeg => Rgba([0, 0, 0, 255]),
+      None => Rgba([0, 0, 0, 0]),
+    }
+  }
+
+  fn container(&self) -> Option<Container> {
+    match self.format {
+      OutputFormat::Webp => Some(Container::Webp),
+      OutputFormat::Jpeg => Some(Container::Jpeg),
+      OutputFormat::Png => Some(Container::Png),
+      OutputFormat::Avif => None,
+    }
+  }
+}
+
+#[derive(Debug, Clone, Copy)]
+struct RenderLayout {
+  canvas_width: u32,
+  canvas_height: u32,
+  source_x: f64,
+  source_y: f64,
+  source_width: f64,
+  source_height: f64,
+  dest_x: u32,
+  dest_y: u32,
+  dest_width: u32,
+  dest_height: u32,
+}
+
+impl RenderLayout {
+  fn scaled(&self, factor: f64) -> RenderLayout {
+    let scale = |value: u32| (f64::from(value) * factor).round() as u32;
+    RenderLayout {
+      canvas_width: scale(self.canvas_width).max(1),
+      canvas_height: scale(self.canvas_height).max(1),
+      dest_x: scale(self.dest_x),
+      dest_y: scale(self.dest_y),
+      dest_width: scale(self.dest_width).max(1),
+      dest_height: scale(self.dest_height).max(1),
+      ..*self
+    }
+  }
+}
+
+/// Mirrors `getRenderLayout` in `src/conversion.ts`.
+fn render_layout(source_width: u32, source_height: u32, options: &EncodeOptions) -> RenderLayout {
+  let source_width = f64::from(source_width);
+  let source_height = f64::from(source_height);
+  let reduce_ratio = if options.reduce_percent > 0 {
+    f64::from(100 - options.reduce_percent.min(95)) / 100.0
+  } else {
+    1.0
+  };
+  let width = (source_width * reduce_ratio).max(1.0);
+  let height = (source_height * reduce_ratio).max(1.0);
+  let (anchor_x, anchor_y) = options.anchor.position();
+  let target = options.max_width.zip(options.max_height);
+  let fit = if target.is_some() { options.fit } else { FitMode::ScaleDown };
+  let (target_width, target_height) = target.unwrap_or((0, 0));
+  let (target_width_f, target_height_f) = (f64::from(target_width), f64::from(target_height));
+  let full = |canvas_width: u32, canvas_height: u32, dest_x: u32, dest_y: u32, dest_width: u32, dest_height: u32| {
+    RenderLayout {
+      canvas_width,
+      canvas_height,
+      source_x: 0.0,
+      source_y: 0.0,
+      source_width,
+      source_height,
+      dest_x,
+      dest_y,
+      dest_width,
+      dest_height,
+    }
+  };
+
+  match fit {
+    FitMode::Exact => full(target_width, target_height, 0, 0, target_width, target_height),
+    FitMode::Cover => {
+      let scale = (target_width_f / width).max(target_height_f / height);
+      let shrink = if scale > 1.0 && !options.allow_upscale { 1.0 / scale } else { 1.0 };
+      let canvas_width = (target_width_f * shrink).round().max(1.0) as u32;
+      let canvas_height = (target_height_f * shrink).round().max(1.0) as u32;
+      let crop_width = (target_width_f / scale / reduce_ratio).min(source_width);
+      let crop_height = (target_height_f / scale / reduce_ratio).min(source_height);
+
+      RenderLayout {
+        canvas_width,
+        canvas_height,
+        source_x: (source_width - crop_width) * anchor_x,
+        source_y: (source_height - crop_height) * anchor_y,
+        source_width: crop_width,
+        source_height: crop_height,
+        dest_x: 0,
+        dest_y: 0,
+        dest_width: canvas_width,
+        dest_height: canvas_height,
+      }
+    }
+    FitMode::Contain => {
+      let limit = if options.allow_upscale { f64::INFINITY } else { 1.0 };
+      let scale = (target_width_f / width).min(target_height_f / height).min(limit);
+      let dest_width = (width * scale).round().max(1.0) as u32;
+      let dest_height = (height * scale).round().max(1.0) as u32;
+      let dest_x = (f64::from(target_width.saturating_sub(dest_width)) * anchor_x).round() as u32;
+      let dest_y = (f64::from(target_height.saturating_sub(dest_height)) * anchor_y).round() as u32;
+      full(target_width, target_height, dest_x, dest_y, dest_width, dest_height)
+    }
+    FitMode::ScaleDown => {
+      let mut ratio = 1.0;
+      if options.max_width.is_some() || options.max_height.is_some() {
+        let max_width = options.max_width.map_or(f64::INFINITY, f64::from);
+        let max_height = options.max_height.map_or(f64::INFINITY, f64::from);
+        ratio = (max_width / width).min(max_height / height);
+        if ratio > 1.0 && !options.allow_upscale {
+          ratio = 1.0;
+        }
+      }
+
+      let canvas_width = (width * ratio).round().max(1.0) as u32;
+      let canvas_height = (height * ratio).round().max(1.0) as u32;
+      full(canvas_width, canvas_height, 0, 0, canvas_width, canvas_height)
+    }
+  }
+}
+
+fn webp_config(options: &EncodeOptions, quality: u8) -> Result<webp::WebPConfig, ConvertError> {
+  let mut config = webp::WebPConfig::new()
+    .map_err(|_| ConvertError::Encode("The WebP encoder could not be configured.".into()))?;
+  config.quality = f32::from(quality);
+  config.method = i32::from(options.effort.min(6));
+  config.lossless = i32::from(options.compression != Compression::Lossy);
+  config.near_lossless = if options.compression == Compression::NearLossless {
+    i32::from(options.near_lossless)
+  } else {
+    100
+  };
+  config.alpha_quality = i32::from(options.alpha_quality);
+  config.exact = i32::from(options.compression == Compression::Lossless);
+  Ok(config)
+}
+
+fn encode_webp(image: &RgbaImage, options: &EncodeOptions, quality: u8) -> Result<Vec<u8>, ConvertError> {
+  let config = webp_config(options, quality)?;
+  let encoder = webp::Encoder::from_rgba(image.as_raw(), image.width(), image.height());
+  let memory = encoder
+    .encode_advanced(&config)
+    .map_err(|error| ConvertError::Encode(format!("WebP encoding failed: {error:?}")))?;
+  Ok(memory.to_vec())
+}
+
+fn encode_avif(image: &RgbaImage, options: &EncodeOptions, quality: u8) -> Result<Vec<u8>, ConvertError> {
+  let pixels: Vec<RGBA8> = image
+    .pixels()
+    .map(|pixel| RGBA8::new(pixel[0], pixel[1], pixel[2], pixel[3]))
+    .collect();
+  let speed = 10u8.saturating_sub(options.effort.min(6) * 3 / 2).max(1);
+
+  let encoded = ravif::Encoder::new()
+    .with_quality(f32::from(quality))
+    .with_alpha_quality(f32::from(options.alpha_quality))
+    .with_speed(speed)
+    .encode_rgba(Img::new(pixels.as_slice(), image.width() as usize, image.height() as usize))
+    .map_err(|error| ConvertError::Encode(format!("AVIF encoding failed: {error}")))?;
+  Ok(encoded.avif_file)
+}
+
+fn encode_jpeg(image: &RgbaImage, quality: u8) -> Result<Vec<u8>, ConvertError> {
+  let rgb = DynamicImage::ImageRgba8(image.clone()).to_rgb8();
+  let mut buffer = Vec::new();
+  JpegEncoder::new_with_quality(&mut buffer, quality.max(1))
+    .encode_image(&rgb)
+    .map_err(|error| ConvertError::Encode(format!("JPEG encoding failed: {error}")))?;
+  Ok(buffer)
+}
+
+fn encode_png(image: &RgbaImage) -> Result<Vec<u8>, ConvertError> {
+  let mut buffer = Vec::new();
+  DynamicImage::ImageRgba8(image.clone())
+    .write_to(&mut Cursor::new(&mut buffer), ImageFormat::Png)
+    .map_err(|error| ConvertError::Encode(format!("PNG encoding failed: {error}")))?;
+  Ok(buffer)
+}
+
+fn encode(image: &RgbaImage, options: &EncodeOptions, quality: u8) -> Result<Vec<u8>, ConvertError> {
+  match options.format {
+    OutputFormat::Webp => encode_webp(image, options, quality),
+    OutputFormat::Avif => encode_avif(image, options, quality),
+    OutputFormat::Jpeg => encode_jpeg(image, quality),
+    OutputFormat::Png => encode_png(image),
+  }
+}
+
+/// What gets encoded: one still, or every frame of an animation rendered at the same layout.
+enum Rendered<'a> {
+  Still(RgbaImage),
+  Animated(Vec<RgbaImage>, &'a Animation),
+}
+
+impl Rendered<'_> {
+  fn first(&self) -> &RgbaImage {
+    match self {
+      Rendered::Still(image) => image,
+      Rendered::Animated(frames, _) => &frames[0],
+    }
+  }
+
+  fn encode(&self, options: &EncodeOptions, quality: u8) -> Result<Vec<u8>, ConvertError> {
+    match self {
+      Rendered::Still(image) => encode(image, options, quality),
+      Rendered::Animated(frames, animation) => {
+        animation::encode_webp(frames, animation, &webp_config(options, quality)?).map_err(ConvertError::Encode)
+      }
+    }
+  }
+}
+
+/// Mirrors `encodeWithinBudget` in `src/conversion.ts`: keep the highest quality that fits.
+fn encode_within_budget(
+  rendered: &Rendered,
+  options: &EncodeOptions,
+  max_bytes: u64,
+) -> Result<(Vec<u8>, u8, bool), ConvertError> {
+  let first_attempt = rendered.encode(options, options.quality)?;
+  if first_attempt.len() as u64 <= max_bytes {
+    return Ok((first_attempt, options.quality, true));
+  }
+
+  let mut low = TARGET_SIZE_MIN_QUALITY;
+  let mut high = options.quality.saturating_sub(1);
+  let mut best: Option<(Vec<u8>, u8)> = None;
+
+  while low <= high {
+    let quality = low + (high - low) / 2;
+    let bytes = rendered.encode(options, quality)?;
+
+    if bytes.len() as u64 <= max_bytes {
+      best = Some((bytes, quality));
+      low = quality + 1;
+    } else {
+      high = quality - 1;
+    }
+  }
+
+  if let Some((bytes, quality)) = best {
+    return Ok((bytes, quality, true));
+  }
+
+  let quality = TARGET_SIZE_MIN_QUALITY.min(options.quality);
+  Ok((rendered.encode(options, quality)?, quality, false))
+}
+
+fn render(source: &RgbaImage, layout: &RenderLayout, options: &EncodeOptions) -> RgbaImage {
+  let crop_x = layout.source_x.round() as u32;
+  let crop_y = layout.source_y.round() as u32;
+  let crop_width = (layout.source_width.round() as u32).clamp(1, source.width() - crop_x.min(source.width() - 1));
+  let crop_height = (layout.source_height.round() as u32).clamp(1, source.height() - crop_y.min(source.height() - 1));
+  let mut cropped = if crop_width == source.width() && crop_height == source.height() {
+    resample::resize(source, layout.dest_width, layout.dest_height, options.resampling)
+  } else {
+    let region = image::imageops::crop_imm(source, crop_x, crop_y, crop_width, crop_height).to_image();
+    resample::resize(&region, layout.dest_width, layout.dest_height, options.resampling)
+  };
+  resample::sharpen(&mut cropped, options.sharpen);
+
+  if layout.canvas_width == layout.dest_width && layout.canvas_height == layout.dest_height {
+    return cropped;
+  }
+
+  let mut canvas = RgbaImage::from_pixel(layout.canvas_width, layout.canvas_height, options.pad_pixel());
+  image::imageops::overlay(&mut canvas, &cropped, i64::from(layout.dest_x), i64::from(layout.dest_y));
+  canvas
+}
+
+/// Decodes the source with its EXIF orientation applied and returns the metadata it carried.
+fn decode(bytes: &[u8]) -> Result<(RgbaImage, SourceMetadata), ConvertError> {
+  let unsupported = |error: image::ImageError| ConvertError::UnsupportedInput(error.to_string());
+  let mut decoder = ImageReader::new(Cursor::new(bytes))
+    .with_guessed_format()?
+    .into_decoder()
+    .map_err(unsupported)?;
+
+  let orientation = decoder.orientation().map_err(unsupported)?;
+  let source_metadata = SourceMetadata {
+    exif: decoder.exif_metadata().ok().flatten().map(metadata::strip_exif_header),
+    xmp: metadata::scan_xmp(bytes),
+    icc: decoder.icc_profile().ok().flatten(),
+  };
+
+  let mut image = DynamicImage::from_decoder(decoder).map_err(unsupported)?;
+  image.apply_orientation(orientation);
+  Ok((image.to_rgba8(), source_metadata))
+}
+
+/// Converts encoded image bytes, returning the output file contents alongside what was done to them.
+pub(crate) fn convert_bytes(input: &[u8], options: &EncodeOptions) -> Result<(Vec<u8>, ConvertResult), ConvertError> {
+  let original_size = input.len() as u64;
+  let (source, source_metadata) = decode(input)?;
+  let output_metadata = match options.container() {
+    Some(container) => metadata::select(source_metadata, options.metadata).fit(container),
+    None => metadata::OutputMetadata::default(),
+  };
+  let metadata_bytes = output_metadata.byte_len() as u64;
+
+  let watermark = options.watermark.as_ref().map(watermark::load).transpose()?;
+  let render_stamped = |frame: &RgbaImage, layout: &RenderLayout| {
+    let mut output = render(frame, layout, options);
+    if let Some(watermark) = &watermark {
+      watermark.apply(&mut output);
+    }
+    output
+  };
+
+  let animation = animation::decode(input, options.keeps_animation());
+  let kept_animation = animation.as_ref().filter(|_| options.keeps_animation());
+  let render_all = |layout: &RenderLayout| match kept_animation {
+    Some(animation) => Rendered::Animated(
+      animation.frames.iter().map(|(frame, _)| render_stamped(frame, layout)).collect(),
+      animation,
+    ),
+    None => Rendered::Still(render_stamped(&source, layout)),
+  };
+
+  let mut layout = render_layout(source.width(), source.height(), options);
+  let mut rendered = render_all(&layout);
+
+  let budget = options.max_bytes.filter(|_| options.quality_adjustable());
+  let (bytes, size_target) = match budget {
+    Some(budget) => {
+      let max_bytes = if metadata_bytes > 0 {
+        budget.saturating_sub(metadata_bytes + METADATA_CONTAINER_OVERHEAD).max(1)
+      } else {
+        budget
+      };
+      let mut attempt = encode_within_budget(&rendered, options, max_bytes)?;
+      let mut downscaled = false;
+
+      while !attempt.2
+        && options.allow_budget_downscale
+        && f64::from(layout.canvas_width.min(layout.canvas_height)) * TARGET_SIZE_DOWNSCALE_STEP
+          >= TARGET_SIZE_MIN_DIMENSION
+      {
+        layout = layout.scaled(TARGET_SIZE_DOWNSCALE_STEP);
+        downscaled = true;
+        rendered = render_all(&layout);
+        attempt = encode_within_budget(&rendered, options, max_bytes)?;
+      }
+
+      let (bytes, quality, met) = attempt;
+      (bytes, Some(SizeTarget { max_bytes: budget, quality, met, downscaled }))
+    }
+    None => (rendered.encode(options, options.quality)?, None),
+  };
+  let quality_score = match &rendered {
+    Rendered::Still(image) => quality::measure(image, &bytes),
+    Rendered::Animated(..) => None,
+  };
+
+  let image = rendered.first();
+  let bytes = match options.container() {
+    Some(container) => metadata::embed(bytes, container, &output_metadata, image.width(), image.height())?,
+    None => bytes,
+  };
+
+  let result = ConvertResult {
+    original_width: source.width(),
+    original_height: source.height(),
+    output_width: image.width(),
+    output_height: image.height(),
+    original_size,
+    converted_size: bytes.len() as u64,
+    size_target,
+    quality_score,
+    animation: animation.as_ref().map(|animation| AnimationSummary {
+      frame_count: animation.frame_count,
+      kept: kept_animation.is_some(),
+    }),
+    metadata_kept: output_metadata.labels,
+    metadata_dropped: output_metadata.dropped,
+  };
+
+  Ok((bytes, result))
+}
+
+fn convert(request: &ConvertRequest) -> Result<ConvertResult, ConvertError> {
+  let input = fs::read(&request.input_path)?;
+  let (bytes, result) = convert_bytes(&input, &request.options)?;
+
+  if let Some(parent) = Path::new(&request.output_path).parent() {
+    fs::create_dir_all(parent)?;
+  }
+  fs::write(&request.output_path, &bytes)?;
+
+  Ok(result)
+}
+
+/// Decodes, resizes and encodes one file path to path, so image bytes never cross IPC.
+#[tauri::command]
+pub async fn convert_image(request: ConvertRequest) -> Result<ConvertResult, ConvertError> {
+  tauri::async_runtime::spawn_blocking(move || convert(&request))
+    .await
+    .map_err(|error| ConvertError::Io(error.to_string()))?
+}
@@ -1,9 +1,25 @@
+mod animation;
+mod cli;
+mod convert;
+mod metadata;
+mod presets;
+mod quality;
+mod resample;
+mod watermark;
+
+/// Handles `webpeezy convert …` and friends. Returns the exit code, or `None` when the app should open as usual.
+pub fn run_cli() -> Option<i32> {
+  let args: Vec<String> = std::env::args().skip(1).collect();
+  cli::run(&args)
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
     .plugin(tauri_plugin_dialog::init())
     .plugin(tauri_plugin_fs::init())
     .plugin(tauri_plugin_opener::init())
+    .invoke_handler(tauri::generate_handler![convert::convert_image])
     .setup(|app| {
       if cfg!(debug_assertions) {
         app.handle().plugin(
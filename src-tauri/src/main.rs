@@ -1,6 +1,27 @@
 // Prevents additional console window on Windows in release, DO NOT REMOVE!!
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
+#[cfg(windows)]
+fn attach_parent_console() {
+  // Release builds use the GUI subsystem, so borrow the terminal that launched us for CLI output.
+  const ATTACH_PARENT_PROCESS: u32 = u32::MAX;
+  extern "system" {
+    fn AttachConsole(process_id: u32) -> i32;
+  }
+  unsafe {
+    AttachConsole(ATTACH_PARENT_PROCESS);
+  }
+}
+
 fn main() {
+  if std::env::args().len() > 1 {
+    #[cfg(windows)]
+    attach_parent_console();
+
+    if let Some(code) = webpeezy_lib::run_cli() {
+      std::process::exit(code);
+    }
+  }
+
   webpeezy_lib::run();
 }
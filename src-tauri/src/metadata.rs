@@ -0,0 +1,410 @@
+use std::io::Write;
+
+use flate2::write::ZlibEncoder;
+use flate2::Compression as ZlibLevel;
+use serde::Deserialize;
+
+const TAG_ORIENTATION: u16 = 0x0112;
+const TAG_ARTIST: u16 = 0x013b;
+const TAG_COPYRIGHT: u16 = 0x8298;
+const EXIF_HEADER: &[u8] = b"Exif\0\0";
+const XMP_NAMESPACE: &[u8] = b"http://ns.adobe.com/xap/1.0/\0";
+const ICC_SIGNATURE: &[u8] = b"ICC_PROFILE\0";
+const PNG_XMP_KEYWORD: &[u8] = b"XML:com.adobe.xmp";
+const JPEG_MAX_SEGMENT: usize = 65533;
+const JPEG_ICC_CHUNK: usize = 65519;
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub enum MetadataPolicy {
+  Strip,
+  Copyright,
+  All,
+}
+
+#[derive(Debug, Default)]
+pub struct SourceMetadata {
+  pub exif: Option<Vec<u8>>,
+  pub xmp: Option<Vec<u8>>,
+  pub icc: Option<Vec<u8>>,
+}
+
+#[derive(Debug, Default)]
+pub struct OutputMetadata {
+  pub exif: Option<Vec<u8>>,
+  pub xmp: Option<Vec<u8>>,
+  pub icc: Option<Vec<u8>>,
+  pub labels: Vec<String>,
+  /// What the policy kept but the container had no room for.
+  pub dropped: Vec<String>,
+}
+
+impl OutputMetadata {
+  pub fn byte_len(&self) -> usize {
+    [&self.exif, &self.xmp, &self.icc]
+      .iter()
+      .map(|part| part.as_ref().map_or(0, Vec::len))
+      .sum()
+  }
+
+  /// Mirrors `fitMetadataToFormat` in `src/metadata.ts`: JPEG cannot hold EXIF or XMP past one APP1 segment.
+  pub fn fit(mut self, container: Container) -> Self {
+    if container != Container::Jpeg {
+      return self;
+    }
+
+    let exif_fits = self.exif.as_ref().map_or(true, |exif| EXIF_HEADER.len() + exif.len() <= JPEG_MAX_SEGMENT);
+    let xmp_fits = self.xmp.as_ref().map_or(true, |xmp| XMP_NAMESPACE.len() + xmp.len() <= JPEG_MAX_SEGMENT);
+    if !exif_fits {
+      self.exif = None;
+      self.dropped.push("EXIF".into());
+    }
+    if !xmp_fits {
+      self.xmp = None;
+      self.dropped.push("XMP".into());
+    }
+
+    self.labels.retain(|label| match label.as_str() {
+      "XMP" => xmp_fits,
+      "ICC" => true,
+      _ => exif_fits,
+    });
+    self
+  }
+
+  fn is_empty(&self) -> bool {
+    self.exif.is_none() && self.xmp.is_none() && self.icc.is_none()
+  }
+}
+
+struct TiffEntry {
+  tag: u16,
+  kind: u16,
+  count: u32,
+  offset: usize,
+}
+
+fn read_u16(bytes: &[u8], offset: usize, little_endian: bool) -> Option<u16> {
+  let pair: [u8; 2] = bytes.get(offset..offset + 2)?.try_into().ok()?;
+  Some(if little_endian { u16::from_le_bytes(pair) } else { u16::from_be_bytes(pair) })
+}
+
+fn read_u32(bytes: &[u8], offset: usize, little_endian: bool) -> Option<u32> {
+  let quad: [u8; 4] = bytes.get(offset..offset + 4)?.try_into().ok()?;
+  Some(if little_endian { u32::from_le_bytes(quad) } else { u32::from_be_bytes(quad) })
+}
+
+fn tiff_entries(tiff: &[u8]) -> Option<(bool, Vec<TiffEntry>)> {
+  let little_endian = *tiff.first()? == b'I';
+  let ifd_offset = read_u32(tiff, 4, little_endian)? as usize;
+  let count = read_u16(tiff, ifd_offset, little_endian)?;
+  let entries = (0..usize::from(count))
+    .map_while(|index| {
+      let offset = ifd_offset + 2 + index * 12;
+      Some(TiffEntry {
+        tag: read_u16(tiff, offset, little_endian)?,
+        kind: read_u16(tiff, offset + 2, little_endian)?,
+        count: read_u32(tiff, offset + 4, little_endian)?,
+        offset,
+      })
+    })
+    .collect();
+  Some((little_endian, entries))
+}
+
+fn read_ascii_tag(tiff: &[u8], tag: u16) -> Option<String> {
+  let (little_endian, entries) = tiff_entries(tiff)?;
+  let entry = entries.iter().find(|entry| entry.tag == tag && entry.kind == 2)?;
+  let count = entry.count as usize;
+  let start = if count <= 4 {
+    entry.offset + 8
+  } else {
+    read_u32(tiff, entry.offset + 8, little_endian)? as usize
+  };
+  let value = String::from_utf8_lossy(tiff.get(start..start + count)?)
+    .trim_end_matches('\0')
+    .trim()
+    .to_string();
+  (!value.is_empty()).then_some(value)
+}
+
+fn reset_orientation(tiff: &[u8]) -> Vec<u8> {
+  let mut copy = tiff.to_vec();
+  if let Some((little_endian, entries)) = tiff_entries(tiff) {
+    if let Some(entry) = entries.iter().find(|entry| entry.tag == TAG_ORIENTATION) {
+      let value = if little_endian { 1u16.to_le_bytes() } else { 1u16.to_be_bytes() };
+      copy[entry.offset + 8..entry.offset + 10].copy_from_slice(&value);
+    }
+  }
+  copy
+}
+
+fn build_ascii_tiff(tags: &[(u16, String)]) -> Vec<u8> {
+  let header_size = 8 + 2 + tags.len() * 12 + 4;
+  let mut tiff = vec![b'I', b'I', 0x2a, 0x00];
+  tiff.extend_from_slice(&8u32.to_le_bytes());
+  tiff.extend_from_slice(&(tags.len() as u16).to_le_bytes());
+
+  let mut data = Vec::new();
+  for (tag, value) in tags {
+    let mut bytes = value.as_bytes().to_vec();
+    bytes.push(0);
+    tiff.extend_from_slice(&tag.to_le_bytes());
+    tiff.extend_from_slice(&2u16.to_le_bytes());
+    tiff.extend_from_slice(&(bytes.len() as u32).to_le_bytes());
+
+    if bytes.len() <= 4 {
+      bytes.resize(4, 0);
+      tiff.extend_from_slice(&bytes);
+    } else {
+      tiff.extend_from_slice(&((header_size + data.len()) as u32).to_le_bytes());
+      data.extend_from_slice(&bytes);
+    }
+  }
+
+  tiff.extend_from_slice(&0u32.to_le_bytes());
+  tiff.extend_from_slice(&data);
+  tiff
+}
+
+fn find(haystack: &[u8], needle: &[u8], from: usize) -> Option<usize> {
+  haystack
+    .get(from..)?
+    .windows(needle.len())
+    .position(|window| window == needle)
+    .map(|position| position + from)
+}
+
+/// XMP packets are stored as plain text in every container we read, so a packet scan finds them.
+pub fn scan_xmp(bytes: &[u8]) -> Option<Vec<u8>> {
+  let start = find(bytes, b"<?xpacket begin", 0).or_else(|| find(bytes, b"<x:xmpmeta", 0))?;
+  let end = match find(bytes, b"<?xpacket end", start) {
+    Some(end) => find(bytes, b"?>", end)? + 2,
+    None => find(bytes, b"</x:xmpmeta>", start)? + b"</x:xmpmeta>".len(),
+  };
+  Some(bytes[start..end].to_vec())
+}
+
+pub fn strip_exif_header(exif: Vec<u8>) -> Vec<u8> {
+  match exif.strip_prefix(EXIF_HEADER) {
+    Some(tiff) => tiff.to_vec(),
+    None => exif,
+  }
+}
+
+pub fn select(source: SourceMetadata, policy: MetadataPolicy) -> OutputMetadata {
+  match policy {
+    MetadataPolicy::Strip => OutputMetadata::default(),
+    MetadataPolicy::Copyright => {
+      let tags: Vec<(u16, &str, String)> = [(TAG_ARTIST, "Author"), (TAG_COPYRIGHT, "Copyright")]
+        .into_iter()
+        .filter_map(|(tag, label)| {
+          let value = read_ascii_tag(source.exif.as_deref()?, tag)?;
+          Some((tag, label, value))
+        })
+        .collect();
+
+      if tags.is_empty() {
+        return OutputMetadata::default();
+      }
+
+      let ascii: Vec<(u16, String)> = tags.iter().map(|(tag, _, value)| (*tag, value.clone())).collect();
+      OutputMetadata {
+        exif: Some(build_ascii_tiff(&ascii)),
+        labels: tags.iter().map(|(_, label, _)| label.to_string()).collect(),
+        ..OutputMetadata::default()
+      }
+    }
+    MetadataPolicy::All => {
+      let labels = [
+        source.exif.as_ref().map(|_| "EXIF"),
+        source.xmp.as_ref().map(|_| "XMP"),
+        source.icc.as_ref().map(|_| "ICC"),
+      ]
+      .into_iter()
+      .flatten()
+      .map(String::from)
+      .collect();
+
+      OutputMetadata {
+        exif: source.exif.as_deref().map(reset_orientation),
+        xmp: source.xmp,
+        icc: source.icc,
+        labels,
+        dropped: Vec::new(),
+      }
+    }
+  }
+}
+
+fn crc32(bytes: &[u8]) -> u32 {
+  let mut hasher = crc32fast::Hasher::new();
+  hasher.update(bytes);
+  hasher.finalize()
+}
+
+fn png_chunk(kind: &[u8; 4], data: &[u8]) -> Vec<u8> {
+  let mut chunk = Vec::with_capacity(12 + data.len());
+  chunk.extend_from_slice(&(data.len() as u32).to_be_bytes());
+  chunk.extend_from_slice(kind);
+  chunk.extend_from_slice(data);
+  let crc = crc32(&chunk[4..]);
+  chunk.extend_from_slice(&crc.to_be_bytes());
+  chunk
+}
+
+fn embed_png(bytes: &[u8], metadata: &OutputMetadata) -> std::io::Result<Vec<u8>> {
+  let header_end = 8 + 12 + read_u32(bytes, 8, false).unwrap_or(13) as usize;
+  let mut output = bytes[..header_end].to_vec();
+
+  if let Some(icc) = &metadata.icc {
+    let mut encoder = ZlibEncoder::new(Vec::new(), ZlibLevel::default());
+    encoder.write_all(icc)?;
+    let mut data = b"ICC Profile\0\0".to_vec();
+    data.extend_from_slice(&encoder.finish()?);
+    output.extend_from_slice(&png_chunk(b"iCCP", &data));
+  }
+
+  if let Some(exif) = &metadata.exif {
+    output.extend_from_slice(&png_chunk(b"eXIf", exif));
+  }
+
+  if let Some(xmp) = &metadata.xmp {
+    let mut data = PNG_XMP_KEYWORD.to_vec();
+    data.extend_from_slice(&[0, 0, 0, 0, 0]);
+    data.extend_from_slice(xmp);
+    output.extend_from_slice(&png_chunk(b"iTXt", &data));
+  }
+
+  output.extend_from_slice(&bytes[header_end..]);
+  Ok(output)
+}
+
+fn jpeg_segment(marker: u8, parts: &[&[u8]]) -> Vec<u8> {
+  let length: usize = parts.iter().map(|part| part.len()).sum::<usize>() + 2;
+  let mut segment = vec![0xff, marker, (length >> 8) as u8, length as u8];
+  parts.iter().for_each(|part| segment.extend_from_slice(part));
+  segment
+}
+
+fn embed_jpeg(bytes: &[u8], metadata: &OutputMetadata) -> Vec<u8> {
+  let mut insert_at = 2;
+  while bytes.get(insert_at) == Some(&0xff) && bytes.get(insert_at + 1) == Some(&0xe0) {
+    insert_at += 2 + usize::from(read_u16(bytes, insert_at + 2, false).unwrap_or(0));
+  }
+
+  let mut output = bytes[..insert_at].to_vec();
+
+  if let Some(exif) = metadata.exif.as_ref().filter(|exif| exif.len() + EXIF_HEADER.len() <= JPEG_MAX_SEGMENT) {
+    output.extend_from_slice(&jpeg_segment(0xe1, &[EXIF_HEADER, exif]));
+  }
+
+  if let Some(xmp) = metadata.xmp.as_ref().filter(|xmp| xmp.len() + XMP_NAMESPACE.len() <= JPEG_MAX_SEGMENT) {
+    output.extend_from_slice(&jpeg_segment(0xe1, &[XMP_NAMESPACE, xmp]));
+  }
+
+  if let Some(icc) = &metadata.icc {
+    let chunks: Vec<&[u8]> = icc.chunks(JPEG_ICC_CHUNK).collect();
+    for (index, chunk) in chunks.iter().enumerate() {
+      let sequence = [(index + 1) as u8, chunks.len() as u8];
+      output.extend_from_slice(&jpeg_segment(0xe2, &[ICC_SIGNATURE, &sequence, chunk]));
+    }
+  }
+
+  output.extend_from_slice(&bytes[insert_at..]);
+  output
+}
+
+fn webp_chunk(kind: &[u8; 4], data: &[u8]) -> Vec<u8> {
+  let mut chunk = kind.to_vec();
+  chunk.extend_from_slice(&(data.len() as u32).to_le_bytes());
+  chunk.extend_from_slice(data);
+  if data.len() % 2 == 1 {
+    chunk.push(0);
+  }
+  chunk
+}
+
+fn embed_webp(bytes: &[u8], metadata: &OutputMetadata, width: u32, height: u32) -> Vec<u8> {
+  let mut image_chunks = Vec::new();
+  let mut has_alpha = false;
+  let mut animated = false;
+  let mut offset = 12;
+
+  while offset + 8 <= bytes.len() {
+    let kind = &bytes[offset..offset + 4];
+    let length = read_u32(bytes, offset + 4, true).unwrap_or(0) as usize;
+    let end = (offset + 8 + length + length % 2).min(bytes.len());
+
+    match kind {
+      b"VP8X" => {
+        let flags = bytes.get(offset + 8).copied().unwrap_or(0);
+        has_alpha = flags & 0x10 != 0;
+        animated = flags & 0x02 != 0;
+      }
+      b"ICCP" | b"EXIF" | b"XMP " => {}
+      _ => {
+        if kind == b"VP8L" {
+          has_alpha = bytes.get(offset + 12).is_some_and(|byte| (byte >> 4) & 1 == 1);
+        }
+        has_alpha |= kind == b"ALPH";
+        image_chunks.extend_from_slice(&bytes[offset..end]);
+      }
+    }
+
+    offset = end;
+  }
+
+  let mut header = [0u8; 10];
+  header[0] = if metadata.icc.is_some() { 0x20 } else { 0 }
+    | if has_alpha { 0x10 } else { 0 }
+    | if metadata.exif.is_some() { 0x08 } else { 0 }
+    | if metadata.xmp.is_some() { 0x04 } else { 0 }
+    | if animated { 0x02 } else { 0 };
+  header[4..7].copy_from_slice(&(width - 1).to_le_bytes()[..3]);
+  header[7..10].copy_from_slice(&(height - 1).to_le_bytes()[..3]);
+
+  let mut body = b"WEBP".to_vec();
+  body.extend_from_slice(&webp_chunk(b"VP8X", &header));
+  if let Some(icc) = &metadata.icc {
+    body.extend_from_slice(&webp_chunk(b"ICCP", icc));
+  }
+  body.extend_from_slice(&image_chunks);
+  if let Some(exif) = &metadata.exif {
+    body.extend_from_slice(&webp_chunk(b"EXIF", exif));
+  }
+  if let Some(xmp) = &metadata.xmp {
+    body.extend_from_slice(&webp_chunk(b"XMP ", xmp));
+  }
+
+  let mut riff = b"RIFF".to_vec();
+  riff.extend_from_slice(&(body.len() as u32).to_le_bytes());
+  riff.extend_from_slice(&body);
+  riff
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq)]
+pub enum Container {
+  Webp,
+  Jpeg,
+  Png,
+}
+
+/// Writes the selected metadata into an encoded file. Mirrors `embedMetadata` in `src/metadata.ts`.
+pub fn embed(
+  bytes: Vec<u8>,
+  container: Container,
+  metadata: &OutputMetadata,
+  width: u32,
+  height: u32,
+) -> std::io::Result<Vec<u8>> {
+  if metadata.is_empty() {
+    return Ok(bytes);
+  }
+
+  match container {
+    Container::Webp => Ok(embed_webp(&bytes, metadata, width, height)),
+    Container::Jpeg => Ok(embed_jpeg(&bytes, metadata)),
+    Container::Png => embed_png(&bytes, metadata),
+  }
+}
@@ -0,0 +1,271 @@
+use std::collections::HashMap;
+
+use serde::Deserialize;
+
+use crate::animation::AnimationMode;
+use crate::convert::{Compression, CropAnchor, EncodeOptions, FitMode, OutputFormat};
+use crate::metadata::MetadataPolicy;
+use crate::quality::QualityFloorAction;
+use crate::resample::ResampleFilter;
+use crate::watermark::WatermarkOptions;
+
+/// The app's built-in presets, shared with the React side so both stay in step.
+const DEFAULT_PRESETS: &str = include_str!("../../src/defaultPresets.json");
+
+#[derive(Debug, Clone, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub(crate) struct Preset {
+  pub(crate) id: String,
+  pub(crate) name: String,
+  pub(crate) format: OutputFormat,
+  pub(crate) max_width: Option<u32>,
+  pub(crate) max_height: Option<u32>,
+  pub(crate) fit: FitMode,
+  pub(crate) anchor: CropAnchor,
+  pub(crate) pad_color: String,
+  pub(crate) allow_upscale: bool,
+  pub(crate) resampling: ResampleFilter,
+  pub(crate) sharpen: u8,
+  pub(crate) quality: u8,
+  pub(crate) compression: Compression,
+  pub(crate) near_lossless: u8,
+  pub(crate) alpha_quality: u8,
+  pub(crate) effort: u8,
+  pub(crate) reduce_percent: u32,
+  pub(crate) max_file_size_kb: Option<u64>,
+  pub(crate) allow_budget_downscale: bool,
+  pub(crate) metadata: MetadataPolicy,
+  pub(crate) responsive_widths: Vec<u32>,
+  pub(crate) file_name_template: String,
+  pub(crate) min_ssim: Option<f64>,
+  pub(crate) min_ssim_action: QualityFloorAction,
+  pub(crate) animation: AnimationMode,
+  pub(crate) watermark: Option<PresetWatermark>,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Default, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub(crate) enum WatermarkKind {
+  #[default]
+  Text,
+  Image,
+}
+
+/// The parts of a preset's watermark the encoder can use. Text watermarks need the app's font rendering.
+#[derive(Debug, Clone, Deserialize)]
+#[serde(rename_all = "camelCase", default)]
+pub(crate) struct PresetWatermark {
+  pub(crate) kind: WatermarkKind,
+  image_id: Option<String>,
+  anchor: CropAnchor,
+  margin: f64,
+  scale: f64,
+  opacity: f64,
+  /// The image embedded in the preset file as a data URL, filled in by `parse_presets`.
+  #[serde(skip)]
+  image: Option<String>,
+}
+
+impl Default for PresetWatermark {
+  fn default() -> Self {
+    PresetWatermark {
+      kind: WatermarkKind::Text,
+      image_id: None,
+      anchor: CropAnchor::BottomRight,
+      margin: 3.0,
+      scale: 20.0,
+      opacity: 70.0,
+      image: None,
+    }
+  }
+}
+
+impl Default for Preset {
+  fn default() -> Self {
+    Preset {
+      id: String::new(),
+      name: String::new(),
+      format: OutputFormat::Webp,
+      max_width: None,
+      max_height: None,
+      fit: FitMode::ScaleDown,
+      anchor: CropAnchor::Center,
+      pad_color: "#ffffff".into(),
+      allow_upscale: false,
+      resampling: ResampleFilter::Lanczos3,
+      sharpen: 0,
+      quality: 85,
+      compression: Compression::Lossy,
+      near_lossless: 60,
+      alpha_quality: 100,
+      effort: 4,
+      reduce_percent: 0,
+      max_file_size_kb: None,
+      allow_budget_downscale: false,
+      metadata: MetadataPolicy::Strip,
+      responsive_widths: Vec::new(),
+      file_name_template: "{stem}".into(),
+      min_ssim: None,
+      min_ssim_action: QualityFloorAction::Warn,
+      animation: AnimationMode::Keep,
+      watermark: None,
+    }
+  }
+}
+
+/// Preset files are either a bare list or an object with a `presets` list, as exported by the app.
+/// Exports also carry the watermark images their presets use, keyed by image id.
+#[derive(Deserialize)]
+#[serde(untagged)]
+enum PresetFile {
+  List(Vec<Preset>),
+  Export {
+    presets: Vec<Preset>,
+    #[serde(default)]
+    watermarks: HashMap<String, String>,
+  },
+}
+
+impl Preset {
+  /// Mirrors `normalizePreset` in `src/App.tsx` for the fields the encoder reads.
+  fn normalized(mut self) -> Self {
+    self.name = self.name.trim().to_string();
+    self.max_width = self.max_width.filter(|width| *width > 0);
+    self.max_height = self.max_height.filter(|height| *height > 0);
+    self.quality = self.quality.clamp(1, 100);
+    self.sharpen = self.sharpen.min(100);
+    self.near_lossless = self.near_lossless.min(100);
+    self.alpha_quality = self.alpha_quality.min(100);
+    self.effort = self.effort.min(6);
+    self.reduce_percent = self.reduce_percent.min(95);
+    self.max_file_size_kb = self.max_file_size_kb.filter(|size| *size > 0);
+    self.responsive_widths.retain(|width| (16..=16384).contains(width));
+    self.responsive_widths.sort_unstable();
+    self.responsive_widths.dedup();
+    self.responsive_widths.truncate(8);
+    self.min_ssim = self.min_ssim.filter(|ssim| *ssim > 0.0).map(|ssim| ssim.min(1.0));
+    if self.file_name_template.trim().is_empty() {
+      self.file_name_template = "{stem}".into();
+    }
+    if let Some(watermark) = &mut self.watermark {
+      watermark.margin = watermark.margin.clamp(0.0, 25.0);
+      watermark.scale = watermark.scale.clamp(1.0, 100.0);
+      watermark.opacity = watermark.opacity.clamp(5.0, 100.0);
+    }
+    self
+  }
+
+  /// Why this preset's watermark cannot be applied outside the app, if it has one.
+  pub(crate) fn watermark_problem(&self) -> Option<&'static str> {
+    match &self.watermark {
+      Some(watermark) if watermark.kind == WatermarkKind::Text => {
+        Some("has a text watermark, which only the WebPeezy app can draw")
+      }
+      Some(watermark) if watermark.image.is_none() => {
+        Some("has a watermark image that is missing from its preset file")
+      }
+      _ => None,
+    }
+  }
+
+  fn options(&self) -> EncodeOptions {
+    let mut options = EncodeOptions {
+      format: self.format,
+      max_width: self.max_width,
+      max_height: self.max_height,
+      fit: self.fit,
+      anchor: self.anchor,
+      pad_color: self.pad_color.clone(),
+      allow_upscale: self.allow_upscale,
+      resampling: self.resampling,
+      sharpen: self.sharpen,
+      reduce_percent: self.reduce_percent,
+      quality: self.quality,
+      compression: self.compression,
+      near_lossless: self.near_lossless,
+      alpha_quality: self.alpha_quality,
+      effort: self.effort,
+      max_bytes: None,
+      allow_budget_downscale: self.allow_budget_downscale,
+      metadata: self.metadata,
+      animation: self.animation,
+      watermark: self
+        .watermark
+        .as_ref()
+        .filter(|watermark| watermark.kind == WatermarkKind::Image)
+        .and_then(|watermark| {
+          Some(WatermarkOptions {
+            image: watermark.image.clone()?,
+            anchor: watermark.anchor,
+            margin: watermark.margin,
+            scale: watermark.scale,
+            opacity: watermark.opacity,
+          })
+        }),
+    };
+    options.max_bytes = self
+      .max_file_size_kb
+      .filter(|_| options.quality_adjustable())
+      .map(|size| size * 1024);
+    options
+  }
+
+  /// One set of encoder options per output, mirroring `getResponsiveVariants` in `src/responsiveImages.ts`.
+  pub(crate) fn variants(&self) -> Vec<(Option<u32>, EncodeOptions)> {
+    if self.responsive_widths.is_empty() {
+      return vec![(None, self.options())];
+    }
+
+    let keeps_ratio = self.fit != FitMode::ScaleDown && self.max_width.is_some() && self.max_height.is_some();
+    self
+      .responsive_widths
+      .iter()
+      .map(|&width| {
+        let mut options = self.options();
+        options.reduce_percent = 0;
+        options.max_width = Some(width);
+        options.max_height = match (keeps_ratio, self.max_width, self.max_height) {
+          (true, Some(max_width), Some(max_height)) => Some(
+            ((f64::from(max_height) * f64::from(width)) / f64::from(max_width))
+              .round()
+              .max(1.0) as u32,
+          ),
+          _ => None,
+        };
+        (Some(width), options)
+      })
+      .collect()
+  }
+}
+
+pub(crate) fn builtin_presets() -> Vec<Preset> {
+  parse_presets(DEFAULT_PRESETS).expect("the bundled presets are valid")
+}
+
+pub(crate) fn parse_presets(json: &str) -> Result<Vec<Preset>, serde_json::Error> {
+  let (presets, watermarks) = match serde_json::from_str::<PresetFile>(json)? {
+    PresetFile::List(presets) => (presets, HashMap::new()),
+    PresetFile::Export { presets, watermarks } => (presets, watermarks),
+  };
+
+  Ok(
+    presets
+      .into_iter()
+      .map(|mut preset| {
+        if let Some(watermark) = &mut preset.watermark {
+          watermark.image = watermark.image_id.as_ref().and_then(|id| watermarks.get(id)).cloned();
+        }
+        preset.normalized()
+      })
+      .collect(),
+  )
+}
+
+/// Finds a preset by id or by name, ignoring case. Later lists win so loaded files can shadow built-ins.
+pub(crate) fn find_preset<'a>(presets: &'a [Preset], query: &str) -> Option<&'a Preset> {
+  let query = query.trim();
+  presets
+    .iter()
+    .rev()
+    .find(|preset| preset.id == query || preset.name.eq_ignore_ascii_case(query))
+}
@@ -0,0 +1,115 @@
+use image::RgbaImage;
+use serde::{Deserialize, Serialize};
+
+const MAX_PSNR: f64 = 100.0;
+const SSIM_WINDOW: u32 = 8;
+const SSIM_STRIDE: u32 = 4;
+const SSIM_C1: f64 = (0.01 * 255.0) * (0.01 * 255.0);
+const SSIM_C2: f64 = (0.03 * 255.0) * (0.03 * 255.0);
+const BACKGROUND: f64 = 128.0;
+
+#[derive(Debug, Clone, Copy, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct QualityScore {
+  pub(crate) ssim: f64,
+  pub(crate) psnr: f64,
+}
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Default, Deserialize)]
+#[serde(rename_all = "lowercase")]
+pub(crate) enum QualityFloorAction {
+  #[default]
+  Warn,
+  Fail,
+}
+
+/// Composites onto mid-gray and returns RGB plus luma, matching `flatten` in `src/qualityMetrics.ts`.
+fn flatten(image: &RgbaImage) -> (Vec<f64>, Vec<f64>) {
+  let mut rgb = Vec::with_capacity(image.len() / 4 * 3);
+  let mut luma = Vec::with_capacity(image.len() / 4);
+
+  for pixel in image.pixels() {
+    let alpha = f64::from(pixel[3]) / 255.0;
+    let [red, green, blue] = [0, 1, 2].map(|channel| f64::from(pixel[channel]) * alpha + BACKGROUND * (1.0 - alpha));
+    rgb.extend([red, green, blue]);
+    luma.push(0.299 * red + 0.587 * green + 0.114 * blue);
+  }
+
+  (rgb, luma)
+}
+
+fn psnr(reference: &[f64], output: &[f64]) -> f64 {
+  let squared_error: f64 = reference.iter().zip(output).map(|(a, b)| (a - b) * (a - b)).sum();
+  let mse = squared_error / reference.len() as f64;
+
+  if mse == 0.0 {
+    MAX_PSNR
+  } else {
+    (10.0 * (255.0 * 255.0 / mse).log10()).min(MAX_PSNR)
+  }
+}
+
+fn window_starts(size: u32, window: u32) -> Vec<u32> {
+  if size <= window {
+    return vec![0];
+  }
+
+  let mut starts: Vec<u32> = (0..=size - window).step_by(SSIM_STRIDE as usize).collect();
+  if starts.last().is_some_and(|last| last + window < size) {
+    starts.push(size - window);
+  }
+  starts
+}
+
+fn ssim(reference: &[f64], output: &[f64], width: u32, height: u32) -> f64 {
+  let window_width = SSIM_WINDOW.min(width);
+  let window_height = SSIM_WINDOW.min(height);
+  let area = f64::from(window_width * window_height);
+  let mut total = 0.0;
+  let mut windows = 0;
+
+  for top in window_starts(height, window_height) {
+    for left in window_starts(width, window_width) {
+      let (mut sum_x, mut sum_y, mut sum_xx, mut sum_yy, mut sum_xy) = (0.0, 0.0, 0.0, 0.0, 0.0);
+
+      for y in top..top + window_height {
+        for x in left..left + window_width {
+          let index = (y * width + x) as usize;
+          let (a, b) = (reference[index], output[index]);
+          sum_x += a;
+          sum_y += b;
+          sum_xx += a * a;
+          sum_yy += b * b;
+          sum_xy += a * b;
+        }
+      }
+
+      let (mean_x, mean_y) = (sum_x / area, sum_y / area);
+      let variance_x = sum_xx / area - mean_x * mean_x;
+      let variance_y = sum_yy / area - mean_y * mean_y;
+      let covariance = sum_xy / area - mean_x * mean_y;
+
+      total += ((2.0 * mean_x * mean_y + SSIM_C1) * (2.0 * covariance + SSIM_C2))
+        / ((mean_x * mean_x + mean_y * mean_y + SSIM_C1) * (variance_x + variance_y + SSIM_C2));
+      windows += 1;
+    }
+  }
+
+  total / f64::from(windows)
+}
+
+/// Scores the encoded output against the image that was encoded. `None` when the output cannot be decoded.
+pub(crate) fn measure(reference: &RgbaImage, encoded: &[u8]) -> Option<QualityScore> {
+  let output = image::load_from_memory(encoded).ok()?.to_rgba8();
+  if output.dimensions() != reference.dimensions() {
+    return None;
+  }
+
+  let (reference_rgb, reference_luma) = flatten(reference);
+  let (output_rgb, output_luma) = flatten(&output);
+
+  Some(QualityScore {
+    ssim: ssim(&reference_luma, &output_luma, reference.width(), reference.height()),
+    psnr: psnr(&reference_rgb, &output_rgb),
+  })
+}
@@ -0,0 +1,65 @@
+use image::imageops::FilterType;
+use image::RgbaImage;
+use serde::Deserialize;
+
+const SHARPEN_SIGMA: f32 = 1.0;
+
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Default, Deserialize)]
+#[serde(rename_all = "kebab-case")]
+pub(crate) enum ResampleFilter {
+  #[default]
+  Lanczos3,
+  Mitchell,
+  Bilinear,
+  Halving,
+}
+
+impl ResampleFilter {
+  fn filter_type(self) -> FilterType {
+    match self {
+      ResampleFilter::Lanczos3 => FilterType::Lanczos3,
+      // `image` has no Mitchell filter; Catmull-Rom is the closest cubic it ships.
+      ResampleFilter::Mitchell => FilterType::CatmullRom,
+      ResampleFilter::Bilinear | ResampleFilter::Halving => FilterType::Triangle,
+    }
+  }
+}
+
+/// Resizes to exactly `width` by `height`, mirroring `resizeImage` in `src/conversion.ts`.
+pub(crate) fn resize(source: &RgbaImage, width: u32, height: u32, filter: ResampleFilter) -> RgbaImage {
+  if source.width() == width && source.height() == height {
+    return source.clone();
+  }
+
+  if filter != ResampleFilter::Halving {
+    return image::imageops::resize(source, width, height, filter.filter_type());
+  }
+
+  let mut current = source.clone();
+  while current.width() / 2 >= width && current.height() / 2 >= height {
+    let (half_width, half_height) = ((current.width() / 2).max(1), (current.height() / 2).max(1));
+    current = image::imageops::resize(&current, half_width, half_height, FilterType::Triangle);
+  }
+
+  image::imageops::resize(&current, width, height, FilterType::Triangle)
+}
+
+/// Unsharp mask on the colour channels, mirroring `sharpenPixels` in `src/resampling.ts`.
+/// `amount` runs from 0 to 100; 100 adds back the full difference from a one-pixel Gaussian blur.
+pub(crate) fn sharpen(image: &mut RgbaImage, amount: u8) {
+  if amount == 0 || image.width() < 3 || image.height() < 3 {
+    return;
+  }
+
+  let blurred = image::imageops::blur(image, SHARPEN_SIGMA);
+  let strength = f32::from(amount) / 100.0;
+
+  for (pixel, blurred) in image.pixels_mut().zip(blurred.pixels()) {
+    for channel in 0..3 {
+      let value = f32::from(pixel[channel]);
+      pixel[channel] = (value + (value - f32::from(blurred[channel])) * strength)
+        .round()
+        .clamp(0.0, 255.0) as u8;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+use std::fs;
+
+use base64::Engine;
+use image::imageops::FilterType;
+use image::RgbaImage;
+use serde::Deserialize;
+
+use crate::convert::{ConvertError, CropAnchor};
+
+#[derive(Debug, Clone, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct WatermarkOptions {
+  /// A file path from the app, or a `data:` URL when the preset came from an exported preset file.
+  pub(crate) image: String,
+  pub(crate) anchor: CropAnchor,
+  /// Gap to the nearest edges, as a percentage of the output width.
+  pub(crate) margin: f64,
+  /// Watermark width as a percentage of the output width.
+  pub(crate) scale: f64,
+  pub(crate) opacity: f64,
+}
+
+pub(crate) struct Watermark<'a> {
+  image: RgbaImage,
+  options: &'a WatermarkOptions,
+}
+
+fn read_image_bytes(image: &str) -> Option<Vec<u8>> {
+  match image.strip_prefix("data:") {
+    Some(data_url) => {
+      let (_, encoded) = data_url.split_once(";base64,")?;
+      base64::engine::general_purpose::STANDARD.decode(encoded.trim()).ok()
+    }
+    None => fs::read(image).ok(),
+  }
+}
+
+/// Decodes the watermark image once so every output and animation frame can reuse it.
+pub(crate) fn load(options: &WatermarkOptions) -> Result<Watermark<'_>, ConvertError> {
+  let error = || ConvertError::UnsupportedInput("We could not read the watermark image for this preset.".into());
+  let bytes = read_image_bytes(&options.image).ok_or_else(error)?;
+  let image = image::load_from_memory(&bytes).map_err(|_| error())?.to_rgba8();
+  Ok(Watermark { image, options })
+}
+
+/// Mirrors `getWatermarkRect` in `src/conversion.ts`.
+fn watermark_rect(width: u32, height: u32, options: &WatermarkOptions, natural: (u32, u32)) -> (i64, i64, u32, u32) {
+  let (anchor_x, anchor_y) = options.anchor.position();
+  let (width, height) = (f64::from(width), f64::from(height));
+  let margin = (width * options.margin / 100.0).round();
+  let rect_width = (width * options.scale / 100.0).round().max(1.0);
+  let rect_height = (rect_width * f64::from(natural.1) / f64::from(natural.0.max(1)))
+    .round()
+    .max(1.0);
+
+  (
+    (margin + (width - 2.0 * margin - rect_width) * anchor_x).round() as i64,
+    (margin + (height - 2.0 * margin - rect_height) * anchor_y).round() as i64,
+    rect_width as u32,
+    rect_height as u32,
+  )
+}
+
+impl Watermark<'_> {
+  /// Stamps the watermark onto an output that has already been resized.
+  pub(crate) fn apply(&self, canvas: &mut RgbaImage) {
+    let (x, y, width, height) = watermark_rect(canvas.width(), canvas.height(), self.options, self.image.dimensions());
+    let mut stamp = image::imageops::resize(&self.image, width, height, FilterType::Lanczos3);
+    let opacity = (self.options.opacity / 100.0).clamp(0.0, 1.0);
+
+    for pixel in stamp.pixels_mut() {
+      pixel[3] = (f64::from(pixel[3]) * opacity).round() as u8;
+    }
+
+    image::imageops::overlay(canvas, &stamp, x, y);
+  }
+}
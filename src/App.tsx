@@ -1,46 +1,198 @@
 import { useEffect, useRef, useState } from 'react'
 import { AnimatePresence, motion } from 'motion/react'
-import { join } from '@tauri-apps/api/path'
-import { open } from '@tauri-apps/plugin-dialog'
-import { exists, writeFile } from '@tauri-apps/plugin-fs'
+import { convertFileSrc } from '@tauri-apps/api/core'
+import { dirname, join } from '@tauri-apps/api/path'
+import { getCurrentWebview } from '@tauri-apps/api/webview'
+import { open, save } from '@tauri-apps/plugin-dialog'
+import { copyFile, exists, mkdir, readFile, remove, stat, writeFile } from '@tauri-apps/plugin-fs'
 import { openPath } from '@tauri-apps/plugin-opener'
+import {
+  getEffectiveFit,
+  getMaxBytes,
+  getRenderLayout,
+  getUnsupportedFormatMessage,
+  isQualityAdjustable,
+  OUTPUT_FORMATS,
+  TARGET_SIZE_MIN_QUALITY,
+  type AnimationMode,
+  type AnimationSummary,
+  type CompressionMode,
+  type CropAnchor,
+  type FitMode,
+  type OutputFormat,
+  type Preset,
+  type SizeTargetResult,
+  type Watermark,
+  type WatermarkKind,
+} from './conversion'
+import {
+  CANCELLED_MESSAGE,
+  canUseConversionWorkers,
+  createConversionPool,
+  getDefaultConcurrency,
+  type ConversionPool,
+} from './conversionPool'
+import { collectPastedSources, copyImageToClipboard, readClipboardImages, type PastedSources } from './clipboard'
+import {
+  formatReport,
+  REPORT_FILE_STEM,
+  type ReportEntry,
+  type ReportFormat,
+} from './conversionReport'
+import type { MetadataPolicy } from './metadata'
+import type { ResampleFilter } from './resampling'
+import ComparisonViewer, { type ComparisonSide } from './ComparisonViewer'
+import ResamplingPreview from './ResamplingPreview'
+import WatermarkPreview from './WatermarkPreview'
+import {
+  formatQualityScore,
+  isBelowQualityFloor,
+  type QualityFloorAction,
+  type QualityScore,
+} from './qualityMetrics'
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  FILE_NAME_EXAMPLES,
+  FILE_NAME_TOKENS,
+  formatDate,
+  hashBlob,
+  renderFileName,
+  sanitizeFileStem,
+  sanitizeSegment,
+  usesFileNameToken,
+  validateFileNameTemplate,
+  type FileNameContext,
+} from './fileNames'
+import {
+  collectDroppedFiles,
+  collectPathSources,
+  collectPickedFiles,
+  IMAGE_FILE_EXTENSIONS,
+  type CollectedSources,
+  type SourceFile,
+} from './folderImport'
+import { convertPathNative, getNativeCachePath, isTauriRuntime } from './nativeConversion'
+import {
+  createFileSettler,
+  getWatchRelativePath,
+  isWatchedImagePath,
+  MAX_WATCH_LOG_ENTRIES,
+  watchFolders as startWatchingFolders,
+  type WatchFolder,
+  type WatchLogEntry,
+} from './watchFolders'
+import {
+  buildPictureSnippet,
+  buildResponsiveManifest,
+  DEFAULT_RESPONSIVE_SIZES,
+  getResponsiveSuffix,
+  getResponsiveVariants,
+  isResponsivePreset,
+  MAX_RESPONSIVE_WIDTHS,
+  normalizeResponsiveWidths,
+  parseResponsiveWidths,
+  type ResponsiveImageSet,
+} from './responsiveImages'
+import {
+  countPresetCollisions,
+  importPresets,
+  parsePresetLibrary,
+  PRESET_FILE_NAME,
+  serializePresetLibrary,
+  type PresetCollisionStrategy,
+} from './presetLibrary'
+import {
+  exportWatermarkImages,
+  getPresetWatermarkPath,
+  importWatermarkImages,
+  isWatermarkImageId,
+  readPresetWatermark,
+  storeWatermarkImage,
+  WATERMARK_IMAGE_TYPES,
+} from './watermarkStore'
+import {
+  getStorageEstimate,
+  openQueueSession,
+  purgeOlderSessions,
+  readQueueBlobs,
+  saveQueueChanges,
+  summarizeOlderSessions,
+  type OlderSessionSummary,
+  type QueueChanges,
+  type StorageEstimate,
+  type StoredQueueRecord,
+} from './queueStore'
+import { createZipArchive } from './zipArchive'
+import defaultPresets from './defaultPresets.json'
 import './App.css'
 
-interface Preset {
-  id: string
-  name: string
-  maxWidth: number | null
-  maxHeight: number | null
-  quality: number
-  reducePercent: number
-}
-
 interface ConvertedImage {
   id: string
   originalName: string
   originalSize: number
   convertedSize: number
-  blob: Blob
+  blob?: Blob
+  cachePath?: string
   previewUrl: string
   preset: Preset
   originalWidth: number
   originalHeight: number
   outputWidth: number
   outputHeight: number
+  sizeTarget?: SizeTargetResult
+  qualityScore?: QualityScore
+  animation?: AnimationSummary
+  metadataKept: string[]
+  metadataDropped?: string[]
+  fileSuffix?: string
 }
 
 interface QueuedImage {
   id: string
-  file: File
+  name: string
+  size: number
+  file?: File
+  sourcePath?: string
+  relativePath?: string
+  watchFolderId?: string
   previewUrl: string
   preset: Preset
-  status: 'pending' | 'converting' | 'done' | 'error'
+  status: 'pending' | 'converting' | 'done' | 'error' | 'cancelled'
   converted?: ConvertedImage
+  variants?: ConvertedImage[]
   error?: string
   savedPath?: string
   saveError?: string
 }
 
+interface ConflictPrompt {
+  fileName: string
+  resolve: (resolution: ConflictResolution, applyToAll: boolean) => void
+}
+
+interface ItemEditor {
+  id: string
+  presetId: string
+  quality: number
+  maxWidth: number | null
+  maxHeight: number | null
+}
+
+interface PresetImportPrompt {
+  fileName: string
+  presets: Preset[]
+  collisions: number
+}
+
+interface ExportSession {
+  directory: string
+  date: Date
+  reservedNames: Set<string>
+  conflictPolicy: ConflictPolicy
+  overwritten: number
+  skipped: number
+}
+
 interface Notice {
   kind: 'info' | 'success' | 'error'
   message: string
@@ -52,14 +204,93 @@ interface SaveProgress {
 }
 
 type EditorMode = 'selected' | 'new'
+type ConflictPolicy = 'rename' | 'overwrite' | 'skip' | 'ask'
+type ConflictResolution = Exclude<ConflictPolicy, 'ask'>
 type QueueStateUpdater = QueuedImage[] | ((current: QueuedImage[]) => QueuedImage[])
 
 const STORAGE_KEYS = {
   presets: 'webp-presets',
   outputDirectory: 'webp-output-directory',
+  concurrency: 'webp-concurrency',
+  conflictPolicy: 'webp-conflict-policy',
+  mirrorFolders: 'webp-mirror-folders',
+  watchFolders: 'webp-watch-folders',
+  watchPaused: 'webp-watch-paused',
+  zipReport: 'webp-zip-report',
 } as const
 
-const IMAGE_FILE_PATTERN = /\.(avif|bmp|gif|heic|heif|ico|jpe?g|png|svg|tiff?|webp)$/i
+const MAX_CONCURRENCY = 8
+const DOWNLOAD_INTERVAL_MS = 120
+
+const CONFLICT_POLICIES: Array<{ value: ConflictPolicy; label: string; description: string }> = [
+  { value: 'rename', label: 'Keep both', description: 'New files get -2, -3 and so on added to their names.' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Existing files are replaced with the new versions.' },
+  { value: 'skip', label: 'Skip', description: 'Existing files are left alone and those images are not saved.' },
+  { value: 'ask', label: 'Ask each batch', description: 'You choose what happens when the first conflict shows up.' },
+]
+
+const COMPRESSION_MODES: Array<{ value: CompressionMode; label: string }> = [
+  { value: 'lossy', label: 'Lossy' },
+  { value: 'near-lossless', label: 'Near-lossless' },
+  { value: 'lossless', label: 'Lossless' },
+]
+
+const FIT_MODES: Array<{ value: FitMode; label: string; description: string }> = [
+  { value: 'scale-down', label: 'Scale to fit', description: 'Keeps the aspect ratio and stays within the width and height.' },
+  { value: 'cover', label: 'Cover (crop)', description: 'Fills the exact size and crops whatever sticks out.' },
+  { value: 'contain', label: 'Contain (pad)', description: 'Fits the whole image inside the exact size and pads the rest.' },
+  { value: 'exact', label: 'Exact (stretch)', description: 'Stretches the image to the exact size, ignoring the aspect ratio.' },
+]
+
+const CROP_ANCHORS: Array<{ value: CropAnchor; label: string }> = [
+  { value: 'center', label: 'Center' },
+  { value: 'top', label: 'Top' },
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+]
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+const METADATA_POLICIES: Array<{ value: MetadataPolicy; label: string; description: string }> = [
+  { value: 'strip', label: 'Strip all', description: 'Smallest files. Removes camera, location and copyright data.' },
+  { value: 'copyright', label: 'Keep copyright & author', description: 'Keeps only the EXIF Artist and Copyright fields.' },
+  { value: 'all', label: 'Keep EXIF, XMP & ICC', description: 'Keeps all metadata and the color profile. Location data is kept too.' },
+]
+
+const ANIMATION_MODES: Array<{ value: AnimationMode; label: string }> = [
+  { value: 'keep', label: 'Keep animation' },
+  { value: 'first-frame', label: 'First frame only' },
+]
+
+const RESAMPLE_FILTERS: Array<{ value: ResampleFilter; label: string; description: string }> = [
+  { value: 'lanczos3', label: 'Lanczos3', description: 'Sharpest detail. Best for photos.' },
+  { value: 'mitchell', label: 'Mitchell', description: 'Slightly softer, with less ringing around hard edges.' },
+  { value: 'halving', label: 'Progressive halving', description: 'Halves the image step by step. Fast and smooth.' },
+  { value: 'bilinear', label: 'Bilinear', description: 'Fastest. Can shimmer on fine patterns when shrinking a lot.' },
+]
+
+const WATERMARK_SLIDERS: Array<{ key: 'scale' | 'margin' | 'opacity'; label: string; min: number; max: number }> = [
+  { key: 'scale', label: 'Size (% of width)', min: 1, max: 100 },
+  { key: 'margin', label: 'Margin (% of width)', min: 0, max: 25 },
+  { key: 'opacity', label: 'Opacity', min: 5, max: 100 },
+]
+
+const WATERMARK_KINDS: Array<{ value: WatermarkKind; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'image', label: 'Image' },
+]
+
+const QUALITY_FLOOR_ACTIONS: Array<{ value: QualityFloorAction; label: string }> = [
+  { value: 'warn', label: 'Flag the image' },
+  { value: 'fail', label: 'Fail the conversion' },
+]
+
+const OUTPUT_FORMAT_ORDER: OutputFormat[] = ['webp', 'avif', 'jpeg', 'png']
 
 const clamp = (value: number, min: number, max: number) => {
   return Math.min(max, Math.max(min, value))
@@ -74,13 +305,105 @@ const normalizeDimension = (value: unknown) => {
 
 const clonePreset = (preset: Preset): Preset => ({
   ...preset,
+  responsiveWidths: [...preset.responsiveWidths],
+  watermark: preset.watermark && { ...preset.watermark },
 })
 
+const isOutputFormat = (value: unknown): value is OutputFormat => {
+  return OUTPUT_FORMAT_ORDER.some((format) => format === value)
+}
+
+const isCompressionMode = (value: unknown): value is CompressionMode => {
+  return COMPRESSION_MODES.some((mode) => mode.value === value)
+}
+
+const isFitMode = (value: unknown): value is FitMode => {
+  return FIT_MODES.some((mode) => mode.value === value)
+}
+
+const isCropAnchor = (value: unknown): value is CropAnchor => {
+  return CROP_ANCHORS.some((anchor) => anchor.value === value)
+}
+
+const isResampleFilter = (value: unknown): value is ResampleFilter => {
+  return RESAMPLE_FILTERS.some((filter) => filter.value === value)
+}
+
+const normalizePadColor = (value: unknown) => {
+  if (value === 'transparent') {
+    return value
+  }
+
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value) ? value.toLowerCase() : '#ffffff'
+}
+
+const isMetadataPolicy = (value: unknown): value is MetadataPolicy => {
+  return METADATA_POLICIES.some((policy) => policy.value === value)
+}
+
+const normalizeMinSsim = (value: unknown) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return null
+  }
+  return Math.round(Math.min(1, value) * 10000) / 10000
+}
+
+const normalizePercent = (value: unknown, fallback: number, min: number, max: number) => {
+  return clamp(typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : fallback, min, max)
+}
+
+const DEFAULT_WATERMARK: Watermark = {
+  kind: 'text',
+  text: '',
+  color: '#ffffff',
+  imageId: null,
+  anchor: 'bottom-right',
+  margin: 3,
+  scale: 20,
+  opacity: 70,
+}
+
+const normalizeWatermark = (value: unknown): Watermark | null => {
+  if (typeof value !== 'object' || value === null) {
+    return null
+  }
+
+  const watermark = value as Partial<Watermark>
+  return {
+    kind: watermark.kind === 'image' ? 'image' : 'text',
+    text: typeof watermark.text === 'string' ? watermark.text : '',
+    color:
+      typeof watermark.color === 'string' && HEX_COLOR_PATTERN.test(watermark.color)
+        ? watermark.color.toLowerCase()
+        : DEFAULT_WATERMARK.color,
+    imageId: isWatermarkImageId(watermark.imageId) ? watermark.imageId : null,
+    anchor: isCropAnchor(watermark.anchor) ? watermark.anchor : DEFAULT_WATERMARK.anchor,
+    margin: normalizePercent(watermark.margin, DEFAULT_WATERMARK.margin, 0, 25),
+    scale: normalizePercent(watermark.scale, DEFAULT_WATERMARK.scale, 1, 100),
+    opacity: normalizePercent(watermark.opacity, DEFAULT_WATERMARK.opacity, 5, 100),
+  }
+}
+
+const areWatermarksEqual = (left: Watermark | null, right: Watermark | null) => {
+  if (!left || !right) {
+    return left === right
+  }
+
+  return (Object.keys(left) as Array<keyof Watermark>).every((key) => left[key] === right[key])
+}
+
 const normalizePreset = (preset: Partial<Preset>): Preset => ({
   id: typeof preset.id === 'string' && preset.id.trim() ? preset.id : crypto.randomUUID(),
   name: typeof preset.name === 'string' ? preset.name.trim() : '',
+  format: isOutputFormat(preset.format) ? preset.format : 'webp',
   maxWidth: normalizeDimension(preset.maxWidth),
   maxHeight: normalizeDimension(preset.maxHeight),
+  fit: isFitMode(preset.fit) ? preset.fit : 'scale-down',
+  anchor: isCropAnchor(preset.anchor) ? preset.anchor : 'center',
+  padColor: normalizePadColor(preset.padColor),
+  allowUpscale: preset.allowUpscale === true,
+  resampling: isResampleFilter(preset.resampling) ? preset.resampling : 'lanczos3',
+  sharpen: normalizePercent(preset.sharpen, 0, 0, 100),
   quality: clamp(
     typeof preset.quality === 'number' && Number.isFinite(preset.quality)
       ? Math.round(preset.quality)
@@ -88,6 +411,10 @@ const normalizePreset = (preset: Partial<Preset>): Preset => ({
     1,
     100
   ),
+  compression: isCompressionMode(preset.compression) ? preset.compression : 'lossy',
+  nearLossless: normalizePercent(preset.nearLossless, 60, 0, 100),
+  alphaQuality: normalizePercent(preset.alphaQuality, 100, 0, 100),
+  effort: normalizePercent(preset.effort, 4, 0, 6),
   reducePercent: clamp(
     typeof preset.reducePercent === 'number' && Number.isFinite(preset.reducePercent)
       ? Math.round(preset.reducePercent)
@@ -95,50 +422,25 @@ const normalizePreset = (preset: Partial<Preset>): Preset => ({
     0,
     95
   ),
+  maxFileSizeKb: normalizeDimension(preset.maxFileSizeKb),
+  allowBudgetDownscale: preset.allowBudgetDownscale === true,
+  metadata: isMetadataPolicy(preset.metadata) ? preset.metadata : 'strip',
+  responsiveWidths: normalizeResponsiveWidths(preset.responsiveWidths),
+  responsiveSizes:
+    typeof preset.responsiveSizes === 'string' && preset.responsiveSizes.trim()
+      ? preset.responsiveSizes.trim()
+      : DEFAULT_RESPONSIVE_SIZES,
+  fileNameTemplate:
+    typeof preset.fileNameTemplate === 'string' && !validateFileNameTemplate(preset.fileNameTemplate)
+      ? preset.fileNameTemplate.trim()
+      : DEFAULT_FILE_NAME_TEMPLATE,
+  minSsim: normalizeMinSsim(preset.minSsim),
+  minSsimAction: preset.minSsimAction === 'fail' ? 'fail' : 'warn',
+  animation: preset.animation === 'first-frame' ? 'first-frame' : 'keep',
+  watermark: normalizeWatermark(preset.watermark),
 })
 
-const DEFAULT_PRESETS: Preset[] = [
-  {
-    id: 'original',
-    name: 'Keep Original Size',
-    maxWidth: null,
-    maxHeight: null,
-    quality: 90,
-    reducePercent: 0,
-  },
-  {
-    id: 'large',
-    name: 'Large Website',
-    maxWidth: 1920,
-    maxHeight: 1920,
-    quality: 86,
-    reducePercent: 0,
-  },
-  {
-    id: 'medium',
-    name: 'Standard Blog',
-    maxWidth: 1280,
-    maxHeight: 1280,
-    quality: 84,
-    reducePercent: 0,
-  },
-  {
-    id: 'small',
-    name: 'Small Social',
-    maxWidth: 800,
-    maxHeight: 800,
-    quality: 80,
-    reducePercent: 0,
-  },
-  {
-    id: 'thumb',
-    name: 'Thumbnail',
-    maxWidth: 400,
-    maxHeight: 400,
-    quality: 76,
-    reducePercent: 0,
-  },
-]
+const DEFAULT_PRESETS: Preset[] = (defaultPresets as Array<Partial<Preset>>).map(normalizePreset)
 
 const loadPresets = (): Preset[] => {
   const saved = localStorage.getItem(STORAGE_KEYS.presets)
@@ -164,51 +466,155 @@ const loadOutputDirectory = () => {
   return saved && saved.trim() ? saved : null
 }
 
-const isImageFile = (file: File) => {
-  return file.type.startsWith('image/') || IMAGE_FILE_PATTERN.test(file.name)
+const loadConcurrency = () => {
+  const saved = Number(localStorage.getItem(STORAGE_KEYS.concurrency))
+  return Number.isInteger(saved) && saved > 0 ? clamp(saved, 1, MAX_CONCURRENCY) : getDefaultConcurrency()
 }
 
-const isTauriRuntime = () => {
-  if (typeof window === 'undefined') {
-    return false
+const loadWatchFolders = (): WatchFolder[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEYS.watchFolders) ?? '[]') as unknown
+    if (!Array.isArray(saved)) {
+      return []
+    }
+
+    return saved.filter(
+      (folder): folder is WatchFolder =>
+        typeof folder?.id === 'string' && typeof folder.path === 'string' && typeof folder.presetId === 'string'
+    )
+  } catch {
+    return []
   }
+}
+
+const formatLogTime = (time: number) => {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
 
-  return '__TAURI_INTERNALS__' in (window as Window & { __TAURI_INTERNALS__?: unknown })
+const loadConflictPolicy = (): ConflictPolicy => {
+  const saved = localStorage.getItem(STORAGE_KEYS.conflictPolicy)
+  return CONFLICT_POLICIES.find((policy) => policy.value === saved)?.value ?? 'rename'
 }
 
 const formatBytes = (bytes: number) => {
   if (bytes < 1024) return `${bytes} B`
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
-  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
 }
 
 const getSavingsPercent = (original: number, converted: number) => {
   return Math.round((1 - converted / original) * 100)
 }
 
+const getAnchorLabel = (anchor: CropAnchor) => {
+  return (CROP_ANCHORS.find((entry) => entry.value === anchor)?.label ?? 'Center').toLowerCase()
+}
+
 const getPresetLimitLabel = (preset: Preset) => {
   if (!preset.maxWidth && !preset.maxHeight) {
     return 'Original dimensions'
   }
 
+  const fit = getEffectiveFit(preset)
+  const size = `${preset.maxWidth} x ${preset.maxHeight}px`
+  const upscaleNote = preset.allowUpscale ? ', upscaling allowed' : ''
+
+  if (fit === 'exact') {
+    return `Stretch to exactly ${size}`
+  }
+
+  if (fit === 'cover') {
+    return `Crop to ${size} from the ${getAnchorLabel(preset.anchor)}${upscaleNote}`
+  }
+
+  if (fit === 'contain') {
+    const padding = preset.padColor === 'transparent' ? 'transparent' : preset.padColor
+    return `Fit in ${size}, padded ${padding}${upscaleNote}`
+  }
+
+  const verb = preset.allowUpscale ? 'Scale to' : 'Up to'
+
   if (preset.maxWidth && preset.maxHeight) {
-    return `Up to ${preset.maxWidth} x ${preset.maxHeight}px`
+    return `${verb} ${size}`
   }
 
   if (preset.maxWidth) {
-    return `Up to ${preset.maxWidth}px wide`
+    return `${verb} ${preset.maxWidth}px wide`
   }
 
-  return `Up to ${preset.maxHeight}px tall`
+  return `${verb} ${preset.maxHeight}px tall`
 }
 
-const getPresetDescription = (preset: Preset) => {
-  const parts = [getPresetLimitLabel(preset), `${preset.quality}% quality`]
+const getComparisonBefore = (item: QueuedImage, converted: ConvertedImage): ComparisonSide => ({
+  url: item.previewUrl,
+  label: 'Original',
+  details: [`${converted.originalWidth} x ${converted.originalHeight}`, formatBytes(converted.originalSize)],
+})
+
+const getComparisonAfter = (converted: ConvertedImage): ComparisonSide => ({
+  url: converted.previewUrl,
+  label: OUTPUT_FORMATS[converted.preset.format].label,
+  details: [
+    `${converted.outputWidth} x ${converted.outputHeight}`,
+    `${formatBytes(converted.convertedSize)} • ${getSavingsPercent(converted.originalSize, converted.convertedSize)}% smaller`,
+    getEncodingLabel(converted.preset),
+    ...(converted.qualityScore ? [formatQualityScore(converted.qualityScore)] : []),
+  ],
+})
+
+const getEncodingLabel = (preset: Preset) => {
+  if (!OUTPUT_FORMATS[preset.format].supportsQuality) {
+    return 'Lossless'
+  }
+
+  if (preset.format !== 'webp') {
+    return `${preset.quality}% quality`
+  }
+
+  const parts = [
+    preset.compression === 'lossless'
+      ? 'Lossless'
+      : preset.compression === 'near-lossless'
+        ? `Near-lossless ${preset.nearLossless}`
+        : `${preset.quality}% quality`,
+  ]
+
+  if (preset.compression === 'lossy' && preset.alphaQuality < 100) {
+    parts.push(`${preset.alphaQuality}% alpha`)
+  }
+
+  return parts.join(', ')
+}
+
+const getMetadataLabel = (converted: ConvertedImage) => {
+  if (converted.metadataKept.length > 0) {
+    return `Kept ${converted.metadataKept.join(', ')}`
+  }
 
-  if (preset.reducePercent > 0) {
+  if (converted.preset.metadata === 'strip') {
+    return 'Metadata stripped'
+  }
+
+  return converted.preset.format === 'avif' ? 'No metadata (AVIF)' : 'No metadata found'
+}
+
+const getPresetDescription = (preset: Preset) => {
+  const maxBytes = getMaxBytes(preset)
+  const parts = [
+    OUTPUT_FORMATS[preset.format].label,
+    isResponsivePreset(preset) ? `${preset.responsiveWidths.join(', ')}w set` : getPresetLimitLabel(preset),
+    maxBytes ? `Under ${formatBytes(maxBytes)} (up to ${preset.quality}% quality)` : getEncodingLabel(preset),
+  ]
+
+  if (preset.reducePercent > 0 && !isResponsivePreset(preset)) {
     parts.push(`${preset.reducePercent}% smaller`)
   }
 
+  if (preset.metadata !== 'strip') {
+    parts.push(preset.metadata === 'all' ? 'Keeps metadata' : 'Keeps copyright')
+  }
+
   return parts.join(' • ')
 }
 
@@ -230,128 +636,450 @@ const truncatePath = (path: string) => {
   return ['...', ...segments.slice(-3)].join('/')
 }
 
-const stripControlCharacters = (value: string) => {
-  return Array.from(value)
-    .filter((character) => character >= ' ' && character !== '\u007f')
-    .join('')
-}
-
-const sanitizeFileStem = (name: string) => {
-  const stem = stripControlCharacters(name.replace(/\.[^.]+$/, '')).replace(/[<>:"/\\|?*]/g, '-').trim()
-  const normalized = stem.replace(/\s+/g, ' ').replace(/[. ]+$/g, '')
-  return normalized || 'converted-image'
-}
-
 const createPresetDraft = (source?: Preset): Preset => ({
   id: crypto.randomUUID(),
   name: source?.name ? `${source.name} copy` : '',
+  format: source?.format ?? 'webp',
   maxWidth: source?.maxWidth ?? 1280,
   maxHeight: source?.maxHeight ?? 1280,
+  fit: source?.fit ?? 'scale-down',
+  anchor: source?.anchor ?? 'center',
+  padColor: source?.padColor ?? '#ffffff',
+  allowUpscale: source?.allowUpscale ?? false,
+  resampling: source?.resampling ?? 'lanczos3',
+  sharpen: source?.sharpen ?? 0,
   quality: source?.quality ?? 84,
+  compression: source?.compression ?? 'lossy',
+  nearLossless: source?.nearLossless ?? 60,
+  alphaQuality: source?.alphaQuality ?? 100,
+  effort: source?.effort ?? 4,
   reducePercent: source?.reducePercent ?? 0,
+  maxFileSizeKb: source?.maxFileSizeKb ?? null,
+  allowBudgetDownscale: source?.allowBudgetDownscale ?? false,
+  metadata: source?.metadata ?? 'strip',
+  responsiveWidths: source ? [...source.responsiveWidths] : [],
+  responsiveSizes: source?.responsiveSizes ?? DEFAULT_RESPONSIVE_SIZES,
+  fileNameTemplate: source?.fileNameTemplate ?? DEFAULT_FILE_NAME_TEMPLATE,
+  minSsim: source?.minSsim ?? null,
+  minSsimAction: source?.minSsimAction ?? 'warn',
+  animation: source?.animation ?? 'keep',
+  watermark: source?.watermark ? { ...source.watermark } : null,
 })
 
 const arePresetsEqual = (left: Preset, right: Preset) => {
   return (
     left.id === right.id &&
     left.name === right.name &&
+    left.format === right.format &&
     left.maxWidth === right.maxWidth &&
     left.maxHeight === right.maxHeight &&
+    left.fit === right.fit &&
+    left.anchor === right.anchor &&
+    left.padColor === right.padColor &&
+    left.allowUpscale === right.allowUpscale &&
+    left.resampling === right.resampling &&
+    left.sharpen === right.sharpen &&
     left.quality === right.quality &&
-    left.reducePercent === right.reducePercent
+    left.compression === right.compression &&
+    left.nearLossless === right.nearLossless &&
+    left.alphaQuality === right.alphaQuality &&
+    left.effort === right.effort &&
+    left.reducePercent === right.reducePercent &&
+    left.maxFileSizeKb === right.maxFileSizeKb &&
+    left.allowBudgetDownscale === right.allowBudgetDownscale &&
+    left.metadata === right.metadata &&
+    left.responsiveWidths.join(',') === right.responsiveWidths.join(',') &&
+    left.responsiveSizes === right.responsiveSizes &&
+    left.fileNameTemplate === right.fileNameTemplate &&
+    left.minSsim === right.minSsim &&
+    left.minSsimAction === right.minSsimAction &&
+    left.animation === right.animation &&
+    areWatermarksEqual(left.watermark, right.watermark)
   )
 }
 
+const releaseConvertedImage = (converted: ConvertedImage) => {
+  URL.revokeObjectURL(converted.previewUrl)
+  if (converted.cachePath) {
+    void remove(converted.cachePath).catch(() => undefined)
+  }
+}
+
+const getRelativeFolder = (relativePath?: string) => {
+  return (relativePath ? getPathSegments(relativePath).slice(0, -1) : []).filter((segment) => segment !== '..' && segment !== '.')
+}
+
+const getItemOutputs = (item: QueuedImage) => {
+  return item.variants ?? (item.converted ? [item.converted] : [])
+}
+
+/**
+ * One entry per output, so each responsive width is reported on its own. Without `savedPaths` only the
+ * item's saved path is known, which belongs to its last (largest) output.
+ */
+const getReportEntries = (item: QueuedImage, savedPaths?: string[]): ReportEntry[] => {
+  const outputs = getItemOutputs(item)
+  const error = item.error ?? item.saveError ?? null
+
+  if (outputs.length === 0) {
+    return [
+      {
+        name: item.name,
+        preset: item.preset.name,
+        variant: null,
+        originalWidth: null,
+        originalHeight: null,
+        outputWidth: null,
+        outputHeight: null,
+        originalBytes: item.size,
+        outputBytes: null,
+        savedPath: null,
+        error,
+      },
+    ]
+  }
+
+  return outputs.map((output, index) => ({
+    name: item.name,
+    preset: output.preset.name,
+    variant: item.variants ? index + 1 : null,
+    originalWidth: output.originalWidth,
+    originalHeight: output.originalHeight,
+    outputWidth: output.outputWidth,
+    outputHeight: output.outputHeight,
+    originalBytes: item.size,
+    outputBytes: output.convertedSize,
+    savedPath: (savedPaths ? savedPaths[index] : index === outputs.length - 1 ? item.savedPath : undefined) ?? null,
+    error,
+  }))
+}
+
 const revokeQueueItemUrls = (item: QueuedImage) => {
   URL.revokeObjectURL(item.previewUrl)
-  if (item.converted) {
-    URL.revokeObjectURL(item.converted.previewUrl)
+  getItemOutputs(item).forEach(releaseConvertedImage)
+}
+
+const getSourceBlobKey = (id: string) => `source-${id}`
+const getOutputBlobKey = (id: string) => `output-${id}`
+
+/** Blobs live in their own store and are written once, so status changes only rewrite a small record. */
+const getItemBlobs = (item: QueuedImage) => {
+  const blobs = new Map<string, Blob>()
+  if (item.file) {
+    blobs.set(getSourceBlobKey(item.id), item.file)
+  }
+
+  getItemOutputs(item).forEach((output) => {
+    if (output.blob) {
+      blobs.set(getOutputBlobKey(output.id), output.blob)
+    }
+  })
+  return blobs
+}
+
+const getStoredBlobKeys = (item: QueuedImage) => [
+  getSourceBlobKey(item.id),
+  ...getItemOutputs(item).map((output) => getOutputBlobKey(output.id)),
+]
+
+const toStoredConverted = (converted: ConvertedImage): ConvertedImage => ({ ...converted, blob: undefined })
+
+const toStoredItem = (item: QueuedImage): QueuedImage => ({
+  ...item,
+  file: undefined,
+  converted: item.converted && toStoredConverted(item.converted),
+  variants: item.variants?.map(toStoredConverted),
+})
+
+const getQueueChanges = (
+  previous: Map<string, QueuedImage>,
+  queue: QueuedImage[],
+  orders: Map<string, number>
+): QueueChanges<QueuedImage> => {
+  const changes: QueueChanges<QueuedImage> = { put: [], remove: [], putBlobs: new Map(), removeBlobs: [] }
+
+  for (const item of queue) {
+    const before = previous.get(item.id)
+    if (before === item) {
+      continue
+    }
+
+    if (!orders.has(item.id)) {
+      orders.set(item.id, Math.max(-1, ...orders.values()) + 1)
+    }
+
+    const blobs = getItemBlobs(item)
+    const blobsBefore = before ? getItemBlobs(before) : new Map<string, Blob>()
+    changes.put.push({ id: item.id, order: orders.get(item.id)!, data: toStoredItem(item) })
+    blobs.forEach((blob, key) => {
+      if (!blobsBefore.has(key)) {
+        changes.putBlobs.set(key, blob)
+      }
+    })
+    blobsBefore.forEach((_, key) => {
+      if (!blobs.has(key)) {
+        changes.removeBlobs.push(key)
+      }
+    })
+  }
+
+  const currentIds = new Set(queue.map((item) => item.id))
+  previous.forEach((item, id) => {
+    if (!currentIds.has(id)) {
+      changes.remove.push(id)
+      changes.removeBlobs.push(...getItemBlobs(item).keys())
+      orders.delete(id)
+    }
+  })
+
+  return changes
+}
+
+/** Brings an output back from its stored blob or its desktop cache file. Null when neither survived. */
+const restoreStoredOutput = async (output: ConvertedImage, blobs: Map<string, Blob>) => {
+  const blob = blobs.get(getOutputBlobKey(output.id))
+  if (blob) {
+    return { ...output, blob, previewUrl: URL.createObjectURL(blob) }
+  }
+
+  if (output.cachePath && (await exists(output.cachePath).catch(() => false))) {
+    return { ...output, previewUrl: `${convertFileSrc(output.cachePath)}?v=${output.id}` }
+  }
+
+  return null
+}
+
+/**
+ * Rebuilds a queue item from storage. Interrupted conversions go back to pending, as do finished ones
+ * whose output is gone. Items whose source is gone too are dropped.
+ */
+const restoreStoredItem = async (record: StoredQueueRecord<QueuedImage>, blobs: Map<string, Blob>) => {
+  const stored = record.data
+  const file = blobs.get(getSourceBlobKey(stored.id)) as File | undefined
+  if (!file && !stored.sourcePath) {
+    return null
+  }
+
+  const restoredVariants = stored.variants
+    ? await Promise.all(stored.variants.map((variant) => restoreStoredOutput(variant, blobs)))
+    : undefined
+  const variants = restoredVariants?.every(Boolean) ? (restoredVariants as ConvertedImage[]) : undefined
+  const converted = stored.variants
+    ? variants?.at(-1)
+    : stored.converted && ((await restoreStoredOutput(stored.converted, blobs)) ?? undefined)
+  const lostOutput = Boolean(stored.converted) && !converted
+  if (lostOutput) {
+    restoredVariants?.forEach((output) => output && URL.revokeObjectURL(output.previewUrl))
+  }
+
+  const item: QueuedImage = {
+    ...stored,
+    file,
+    previewUrl: file ? URL.createObjectURL(file) : convertFileSrc(stored.sourcePath!),
+    converted,
+    variants: converted ? variants : undefined,
+    savedPath: lostOutput ? undefined : stored.savedPath,
+  }
+
+  if (item.status === 'converting' || (item.status === 'done' && !converted)) {
+    item.status = 'pending'
   }
+
+  return item
+}
+
+const loadStoredQueue = async () => {
+  const session = await openQueueSession<QueuedImage>()
+  const blobs = await readQueueBlobs(session.records.flatMap((record) => getStoredBlobKeys(record.data)))
+  const restored = await Promise.all(session.records.map((record) => restoreStoredItem(record, blobs)))
+  const items = restored.filter((item): item is QueuedImage => item !== null)
+  const dropped = session.records.filter((_, index) => !restored[index])
+
+  if (dropped.length > 0) {
+    await saveQueueChanges(session.sessionId, {
+      put: [],
+      remove: dropped.map((record) => record.id),
+      putBlobs: new Map(),
+      removeBlobs: dropped.flatMap((record) => getStoredBlobKeys(record.data)),
+    })
+  }
+
+  return {
+    sessionId: session.sessionId,
+    items,
+    orders: new Map(session.records.filter((_, index) => restored[index]).map((record) => [record.id, record.order])),
+  }
+}
+
+const getQualityFloorMessage = (outputs: ConvertedImage[]) => {
+  const failing = outputs
+    .filter((output) => isBelowQualityFloor(output.qualityScore, output.preset.minSsim))
+    .sort((left, right) => left.qualityScore!.ssim - right.qualityScore!.ssim)[0]
+
+  return failing
+    ? `SSIM ${failing.qualityScore!.ssim.toFixed(4)} is below this preset's minimum of ${failing.preset.minSsim}.`
+    : null
 }
 
 const isCompletedItem = (item: QueuedImage): item is QueuedImage & { converted: ConvertedImage } => {
   return item.status === 'done' && Boolean(item.converted)
 }
 
-const convertToWebP = async (file: File, preset: Preset): Promise<ConvertedImage> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    const canvas = document.createElement('canvas')
-    const ctx = canvas.getContext('2d')
-    const sourceUrl = URL.createObjectURL(file)
-
-    img.onload = () => {
-      if (!ctx) {
-        URL.revokeObjectURL(sourceUrl)
-        reject(new Error('Your browser could not start the image converter.'))
-        return
-      }
-
-      let width = img.width
-      let height = img.height
-      const originalWidth = width
-      const originalHeight = height
+const FILE_NAME_SAMPLE = { name: 'IMG_2041.jpg', width: 4032, height: 3024, hash: '3f9a1c2e' }
 
-      if (preset.reducePercent > 0) {
-        const ratio = (100 - preset.reducePercent) / 100
-        width = Math.max(1, Math.round(width * ratio))
-        height = Math.max(1, Math.round(height * ratio))
-      }
+const getConvertedBlob = async (converted: ConvertedImage) => {
+  return converted.blob ?? new Blob([await readFile(converted.cachePath!)])
+}
 
-      if (preset.maxWidth || preset.maxHeight) {
-        const maxWidth = preset.maxWidth || Infinity
-        const maxHeight = preset.maxHeight || Infinity
-        const ratio = Math.min(maxWidth / width, maxHeight / height)
+const getFileNameContext = async (converted: ConvertedImage, index: number, date: Date): Promise<FileNameContext> => ({
+  originalName: converted.originalName,
+  presetName: converted.preset.name,
+  width: converted.outputWidth,
+  height: converted.outputHeight,
+  quality: converted.sizeTarget?.quality ?? converted.preset.quality,
+  date,
+  index,
+  hash: usesFileNameToken(converted.preset.fileNameTemplate, 'hash')
+    ? await hashBlob(await getConvertedBlob(converted))
+    : undefined,
+})
 
-        if (ratio < 1) {
-          width = Math.round(width * ratio)
-          height = Math.round(height * ratio)
-        }
-      }
+const getConvertedFileName = (converted: ConvertedImage, context: FileNameContext, suffix = '') => {
+  const widthSuffix = usesFileNameToken(converted.preset.fileNameTemplate, 'width') ? '' : (converted.fileSuffix ?? '')
+  return renderFileName(
+    converted.preset.fileNameTemplate,
+    context,
+    OUTPUT_FORMATS[converted.preset.format].extension,
+    `${widthSuffix}${suffix}`
+  )
+}
 
-      canvas.width = width
-      canvas.height = height
-      ctx.drawImage(img, 0, 0, width, height)
+const getFileNamePreview = (preset: Preset) => {
+  const responsiveVariant = getResponsiveVariants(preset).at(-1)
+  const layout = getRenderLayout(FILE_NAME_SAMPLE.width, FILE_NAME_SAMPLE.height, responsiveVariant?.preset ?? preset)
+  const widthSuffix =
+    responsiveVariant && !usesFileNameToken(preset.fileNameTemplate, 'width') ? getResponsiveSuffix(layout.canvasWidth) : ''
+
+  return renderFileName(
+    preset.fileNameTemplate,
+    {
+      originalName: FILE_NAME_SAMPLE.name,
+      presetName: preset.name.trim() || 'Untitled preset',
+      width: layout.canvasWidth,
+      height: layout.canvasHeight,
+      quality: preset.quality,
+      date: new Date(),
+      index: 1,
+      hash: FILE_NAME_SAMPLE.hash,
+    },
+    OUTPUT_FORMATS[preset.format].extension,
+    widthSuffix
+  ).join('/')
+}
 
-      canvas.toBlob(
-        (blob) => {
-          URL.revokeObjectURL(sourceUrl)
+const getResponsiveSidecarName = (originalName: string, extension: 'html' | 'json', suffix = '') => {
+  return [`${sanitizeFileStem(originalName)}${suffix}.srcset.${extension}`]
+}
 
-          if (!blob) {
-            reject(new Error('We could not create a WebP file for this image.'))
-            return
-          }
+const getResponsiveSet = (item: QueuedImage & { variants: ConvertedImage[] }, fileNames: string[]): ResponsiveImageSet => ({
+  sourceName: item.name,
+  presetName: item.preset.name,
+  format: item.preset.format,
+  sizes: item.preset.responsiveSizes,
+  files: item.variants.map((variant, index) => ({
+    fileName: fileNames[index],
+    width: variant.outputWidth,
+    height: variant.outputHeight,
+    size: variant.convertedSize,
+  })),
+})
 
-          const previewUrl = URL.createObjectURL(blob)
-
-          resolve({
-            id: crypto.randomUUID(),
-            originalName: file.name,
-            originalSize: file.size,
-            convertedSize: blob.size,
-            blob,
-            previewUrl,
-            preset,
-            originalWidth,
-            originalHeight,
-            outputWidth: width,
-            outputHeight: height,
-          })
-        },
-        'image/webp',
-        preset.quality / 100
-      )
-    }
+const canEncodeFormat = (format: OutputFormat) => {
+  if (OUTPUT_FORMATS[format].encoder === 'libwebp') {
+    return Promise.resolve(true)
+  }
 
-    img.onerror = () => {
-      URL.revokeObjectURL(sourceUrl)
-      reject(new Error('We could not read this image.'))
-    }
+  const canvas = document.createElement('canvas')
+  canvas.width = 1
+  canvas.height = 1
 
-    img.src = sourceUrl
+  return new Promise<boolean>((resolve) => {
+    canvas.toBlob((blob) => resolve(blob?.type === OUTPUT_FORMATS[format].mimeType), OUTPUT_FORMATS[format].mimeType)
   })
 }
 
+const detectSupportedFormats = async () => {
+  const results = await Promise.all(OUTPUT_FORMAT_ORDER.map(async (format) => [format, await canEncodeFormat(format)] as const))
+  return results.filter(([, supported]) => supported).map(([format]) => format)
+}
+
+const createConvertedImage = async (
+  pool: ConversionPool,
+  file: File,
+  preset: Preset,
+  signal?: AbortSignal
+): Promise<ConvertedImage> => {
+  const output = await pool.convert(file, preset, signal, await readPresetWatermark(preset))
+
+  return {
+    id: crypto.randomUUID(),
+    originalName: file.name,
+    originalSize: file.size,
+    convertedSize: output.blob.size,
+    blob: output.blob,
+    previewUrl: URL.createObjectURL(output.blob),
+    preset,
+    originalWidth: output.originalWidth,
+    originalHeight: output.originalHeight,
+    outputWidth: output.outputWidth,
+    outputHeight: output.outputHeight,
+    sizeTarget: output.sizeTarget,
+    qualityScore: output.qualityScore,
+    animation: output.animation,
+    metadataKept: output.metadataKept,
+    metadataDropped: output.metadataDropped,
+  }
+}
+
+const readSourceFile = async (path: string) => {
+  const data = await readFile(path)
+  return new File([data], getPathTail(path))
+}
+
+const createNativeConvertedImage = async (
+  pool: ConversionPool,
+  sourcePath: string,
+  preset: Preset,
+  signal?: AbortSignal
+): Promise<ConvertedImage> => {
+  const id = crypto.randomUUID()
+  const cachePath = await getNativeCachePath(id, preset)
+  const result = await convertPathNative(sourcePath, cachePath, preset, await getPresetWatermarkPath(preset))
+
+  if (!result) {
+    return createConvertedImage(pool, await readSourceFile(sourcePath), preset, signal)
+  }
+
+  return {
+    id,
+    originalName: getPathTail(sourcePath),
+    originalSize: result.originalSize,
+    convertedSize: result.convertedSize,
+    cachePath,
+    previewUrl: `${convertFileSrc(cachePath)}?v=${id}`,
+    preset,
+    originalWidth: result.originalWidth,
+    originalHeight: result.originalHeight,
+    outputWidth: result.outputWidth,
+    outputHeight: result.outputHeight,
+    sizeTarget: result.sizeTarget,
+    qualityScore: result.qualityScore,
+    animation: result.animation,
+    metadataKept: result.metadataKept,
+    metadataDropped: result.metadataDropped,
+  }
+}
+
 function App() {
   const initialState = useRef((() => {
     const loadedPresets = loadPresets()
@@ -361,6 +1089,12 @@ function App() {
       presets: loadedPresets,
       firstPreset,
       outputDirectory: loadOutputDirectory(),
+      concurrency: loadConcurrency(),
+      conflictPolicy: loadConflictPolicy(),
+      mirrorFolders: localStorage.getItem(STORAGE_KEYS.mirrorFolders) === 'true',
+      zipIncludesReport: localStorage.getItem(STORAGE_KEYS.zipReport) === 'true',
+      watchFolders: loadWatchFolders(),
+      watchPaused: localStorage.getItem(STORAGE_KEYS.watchPaused) === 'true',
     }
   })()).current
 
@@ -372,12 +1106,51 @@ function App() {
   const [isDragging, setIsDragging] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [saveProgress, setSaveProgress] = useState<SaveProgress | null>(null)
+  const [queuePaused, setQueuePaused] = useState(false)
   const [notice, setNotice] = useState<Notice | null>(null)
   const [outputDirectory, setOutputDirectory] = useState<string | null>(initialState.outputDirectory)
+  const [supportedFormats, setSupportedFormats] = useState<OutputFormat[] | null>(null)
+  const [concurrency, setConcurrency] = useState(initialState.concurrency)
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>(initialState.conflictPolicy)
+  const [conflictPrompt, setConflictPrompt] = useState<ConflictPrompt | null>(null)
+  const [conflictApplyToAll, setConflictApplyToAll] = useState(false)
+  const [mirrorFolders, setMirrorFolders] = useState(initialState.mirrorFolders)
+  const [zipIncludesReport, setZipIncludesReport] = useState(initialState.zipIncludesReport)
+  const [watchFolders, setWatchFolders] = useState<WatchFolder[]>(initialState.watchFolders)
+  const [watchPaused, setWatchPaused] = useState(initialState.watchPaused)
+  const [watchError, setWatchError] = useState<string | null>(null)
+  const [watchLog, setWatchLog] = useState<WatchLogEntry[]>([])
+  const [presetImportPrompt, setPresetImportPrompt] = useState<PresetImportPrompt | null>(null)
+  const [comparisonItemId, setComparisonItemId] = useState<string | null>(null)
+  const [itemEditor, setItemEditor] = useState<ItemEditor | null>(null)
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([])
+  const [bulkPresetId, setBulkPresetId] = useState(initialState.firstPreset.id)
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null)
+  const [olderSessions, setOlderSessions] = useState<OlderSessionSummary | null>(null)
+  const [isPurgingSessions, setIsPurgingSessions] = useState(false)
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('csv')
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const presetFileInputRef = useRef<HTMLInputElement>(null)
+  const watermarkFileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
   const dropZoneRef = useRef<HTMLDivElement>(null)
   const queueRef = useRef<QueuedImage[]>([])
-  const isProcessingRef = useRef(false)
+  const activeConversionsRef = useRef(0)
+  const concurrencyRef = useRef(initialState.concurrency)
+  const poolRef = useRef<ConversionPool | null>(null)
+  const conversionControllersRef = useRef(new Map<string, AbortController>())
+  const queuePausedRef = useRef(false)
+  const saveControllerRef = useRef<AbortController | null>(null)
+  const heldWatchPathsRef = useRef(new Map<string, WatchFolder>())
+  // Watched saves run long after the render that started them, so they read the current export settings here.
+  const outputDirectoryRef = useRef(outputDirectory)
+  outputDirectoryRef.current = outputDirectory
+  const conflictPolicyRef = useRef(conflictPolicy)
+  conflictPolicyRef.current = conflictPolicy
+  const queueSessionIdRef = useRef<string | null>(null)
+  const persistedQueueRef = useRef(new Map<string, QueuedImage>())
+  const queueOrdersRef = useRef(new Map<string, number>())
+  const persistChainRef = useRef(Promise.resolve())
 
   const updateQueue = (updater: QueueStateUpdater) => {
     const nextQueue = typeof updater === 'function' ? updater(queueRef.current) : updater
@@ -388,10 +1161,12 @@ function App() {
   const selectedPreset = presets.find((preset) => preset.id === selectedPresetId) ?? presets[0] ?? DEFAULT_PRESETS[0]
   const isSelectedDraftDirty = editorMode === 'selected' && !arePresetsEqual(selectedPreset, presetDraft)
   const nativeExportAvailable = isTauriRuntime()
+  const workersAvailable = canUseConversionWorkers()
   const completedCount = queue.filter((item) => item.status === 'done').length
   const pendingCount = queue.filter((item) => item.status === 'pending').length
   const convertingCount = queue.filter((item) => item.status === 'converting').length
   const errorCount = queue.filter((item) => item.status === 'error').length
+  const cancelledCount = queue.filter((item) => item.status === 'cancelled').length
   const savedCount = queue.filter((item) => item.savedPath).length
   const unsavedCompletedCount = queue.filter((item) => isCompletedItem(item) && !item.savedPath).length
   const totalSaved = queue.reduce((accumulator, item) => {
@@ -401,11 +1176,18 @@ function App() {
 
     return accumulator
   }, 0)
+  const comparableItems = queue.filter(isCompletedItem)
+  const selectedItems = queue.filter((item) => selectedItemIds.includes(item.id))
+  const bulkPreset = presets.find((preset) => preset.id === bulkPresetId) ?? selectedPreset
+  const comparisonIndex = comparableItems.findIndex((item) => item.id === comparisonItemId)
+  const comparisonItem = comparisonIndex >= 0 ? comparableItems[comparisonIndex] : null
   const progressPercent = queue.length
-    ? Math.round(((completedCount + errorCount) / queue.length) * 100)
+    ? Math.round(((completedCount + errorCount + cancelledCount) / queue.length) * 100)
     : 0
-  const convertingPosition = queue.findIndex((item) => item.status === 'converting') + 1
-  const canSaveDraft = presetDraft.name.trim().length > 0 && (editorMode === 'new' || isSelectedDraftDirty)
+  const fileNameTemplateError = validateFileNameTemplate(presetDraft.fileNameTemplate)
+  const canSaveDraft =
+    presetDraft.name.trim().length > 0 && !fileNameTemplateError && (editorMode === 'new' || isSelectedDraftDirty)
+  const isFormatSupported = (format: OutputFormat) => !supportedFormats || supportedFormats.includes(format)
 
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.presets, JSON.stringify(presets))
@@ -421,8 +1203,58 @@ function App() {
   }, [outputDirectory])
 
   useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.conflictPolicy, conflictPolicy)
+  }, [conflictPolicy])
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.mirrorFolders, String(mirrorFolders))
+  }, [mirrorFolders])
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.zipReport, String(zipIncludesReport))
+  }, [zipIncludesReport])
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.watchFolders, JSON.stringify(watchFolders))
+  }, [watchFolders])
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.watchPaused, String(watchPaused))
+  }, [watchPaused])
+
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '')
+  }, [])
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.concurrency, String(concurrency))
+    concurrencyRef.current = concurrency
+    poolRef.current?.setSize(concurrency)
+  }, [concurrency])
+
+  useEffect(() => {
+    return () => {
+      // Only the object URLs go: cached desktop outputs belong to the saved queue and are reused on the next start.
+      queueRef.current.forEach((item) => {
+        URL.revokeObjectURL(item.previewUrl)
+        getItemOutputs(item).forEach((output) => URL.revokeObjectURL(output.previewUrl))
+      })
+      poolRef.current?.dispose()
+      poolRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    void detectSupportedFormats().then((formats) => {
+      if (!cancelled) {
+        setSupportedFormats(formats)
+      }
+    })
+
     return () => {
-      queueRef.current.forEach((item) => revokeQueueItemUrls(item))
+      cancelled = true
     }
   }, [])
 
@@ -465,74 +1297,220 @@ function App() {
     updateQueue((currentQueue) => resetSavedState(currentQueue))
   }
 
-  const processQueue = async () => {
-    if (isProcessingRef.current) {
-      return
+  const getConversionPool = () => {
+    if (!poolRef.current) {
+      poolRef.current = createConversionPool(concurrencyRef.current)
     }
 
-    isProcessingRef.current = true
-    setIsProcessing(true)
+    return poolRef.current
+  }
 
-    while (true) {
-      const nextItem = queueRef.current.find((item) => item.status === 'pending')
+  const convertWithPreset = async (item: QueuedImage, preset: Preset, signal?: AbortSignal) => {
+    if (signal?.aborted) {
+      throw new Error(CANCELLED_MESSAGE)
+    }
 
-      if (!nextItem) {
-        isProcessingRef.current = false
-        setIsProcessing(false)
-        return
-      }
+    // The native encoder has no font rasterizer, so text watermarks are drawn on the canvas path.
+    if (item.sourcePath && nativeExportAvailable && preset.watermark?.kind !== 'text') {
+      return createNativeConvertedImage(getConversionPool(), item.sourcePath, preset, signal)
+    }
 
-      updateQueue((currentQueue) =>
-        currentQueue.map((item) =>
-          item.id === nextItem.id
-            ? { ...item, status: 'converting', error: undefined }
-            : item
-        )
+    return createConvertedImage(getConversionPool(), item.file ?? (await readSourceFile(item.sourcePath!)), preset, signal)
+  }
+
+  const convertResponsiveSet = async (item: QueuedImage, signal: AbortSignal) => {
+    const source = item.sourcePath && nativeExportAvailable
+      ? item
+      : { ...item, file: item.file ?? (await readSourceFile(item.sourcePath!)) }
+    const outputs: ConvertedImage[] = []
+
+    try {
+      for (const variant of getResponsiveVariants(item.preset)) {
+        const converted = await convertWithPreset(source, variant.preset, signal)
+
+        if (outputs.some((output) => output.outputWidth === converted.outputWidth)) {
+          releaseConvertedImage(converted)
+          continue
+        }
+
+        outputs.push({
+          ...converted,
+          preset: item.preset,
+          fileSuffix: getResponsiveSuffix(converted.outputWidth),
+        })
+      }
+    } catch (error) {
+      outputs.forEach(releaseConvertedImage)
+      throw error
+    }
+
+    return outputs
+  }
+
+  const convertQueueItem = async (nextItem: QueuedImage) => {
+    const controller = new AbortController()
+    conversionControllersRef.current.set(nextItem.id, controller)
+
+    try {
+      const variants = isResponsivePreset(nextItem.preset)
+        ? await convertResponsiveSet(nextItem, controller.signal)
+        : undefined
+      const converted = variants ? variants.at(-1)! : await convertWithPreset(nextItem, nextItem.preset, controller.signal)
+      const outputs = variants ?? [converted]
+
+      // Native conversions cannot be interrupted, so a cancelled or removed one finishes and is thrown away here.
+      if (controller.signal.aborted || !queueRef.current.some((item) => item.id === nextItem.id)) {
+        outputs.forEach(releaseConvertedImage)
+        return
+      }
+
+      const qualityFloorMessage = getQualityFloorMessage(outputs)
+
+      if (qualityFloorMessage && nextItem.preset.minSsimAction === 'fail') {
+        outputs.forEach(releaseConvertedImage)
+        throw new Error(qualityFloorMessage)
+      }
+
+      updateQueue((currentQueue) =>
+        currentQueue.map((item) => {
+          if (item.id !== nextItem.id) {
+            return item
+          }
+
+          // The preset was changed while this conversion ran; a newer one is already queued.
+          if (item.preset !== nextItem.preset) {
+            outputs.forEach(releaseConvertedImage)
+            return item
+          }
+
+          getItemOutputs(item).forEach(releaseConvertedImage)
+
+          return {
+            ...item,
+            status: 'done',
+            converted,
+            variants,
+            error: undefined,
+            savedPath: undefined,
+            saveError: undefined,
+          }
+        })
       )
 
-      try {
-        const converted = await convertToWebP(nextItem.file, nextItem.preset)
+      if (nextItem.watchFolderId) {
+        void saveWatchedItem(nextItem.id)
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return
+      }
 
-        updateQueue((currentQueue) =>
-          currentQueue.map((item) => {
-            if (item.id !== nextItem.id) {
-              return item
-            }
+      const message = error instanceof Error ? error.message : 'Something went wrong while converting this image.'
 
-            if (item.converted) {
-              URL.revokeObjectURL(item.converted.previewUrl)
-            }
+      if (nextItem.watchFolderId) {
+        addWatchLog('error', `${nextItem.name} could not be converted. ${message}`)
+      }
 
+      updateQueue((currentQueue) =>
+        currentQueue.map((item) => {
+          if (item.id !== nextItem.id || item.preset !== nextItem.preset) {
+            return item
+          }
+
+          if (item.converted) {
             return {
               ...item,
               status: 'done',
-              converted,
-              error: undefined,
-              savedPath: undefined,
-              saveError: undefined,
+              preset: item.converted.preset,
+              error: `Reconverting with "${nextItem.preset.name}" failed, so the previous output was kept. ${message}`,
             }
-          })
-        )
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Something went wrong while converting this image.'
+          }
 
-        updateQueue((currentQueue) =>
-          currentQueue.map((item) =>
-            item.id === nextItem.id
-              ? {
-                  ...item,
-                  status: 'error',
-                  error: message,
-                  saveError: undefined,
-                  savedPath: undefined,
-                }
-              : item
-          )
-        )
+          return {
+            ...item,
+            status: 'error',
+            error: message,
+            saveError: undefined,
+            savedPath: undefined,
+          }
+        })
+      )
+    } finally {
+      if (conversionControllersRef.current.get(nextItem.id) === controller) {
+        conversionControllersRef.current.delete(nextItem.id)
+      }
+    }
+  }
+
+  const processQueue = () => {
+    while (!queuePausedRef.current && activeConversionsRef.current < concurrencyRef.current) {
+      const nextItem = queueRef.current.find((item) => item.status === 'pending')
+
+      if (!nextItem) {
+        break
       }
+
+      activeConversionsRef.current += 1
+      updateQueue((currentQueue) =>
+        currentQueue.map((item) =>
+          item.id === nextItem.id
+            ? { ...item, status: 'converting', error: undefined }
+            : item
+        )
+      )
+
+      void convertQueueItem(nextItem).finally(() => {
+        activeConversionsRef.current -= 1
+        processQueue()
+      })
+    }
+
+    setIsProcessing(activeConversionsRef.current > 0)
+  }
+
+  const toggleQueuePaused = () => {
+    const nextPaused = !queuePausedRef.current
+    queuePausedRef.current = nextPaused
+    setQueuePaused(nextPaused)
+
+    if (!nextPaused) {
+      processQueue()
     }
   }
 
+  /** Stops the given items. One that already had an output goes back to it; the rest are marked cancelled. */
+  const cancelItems = (ids: string[]) => {
+    ids.forEach((id) => conversionControllersRef.current.get(id)?.abort())
+
+    updateQueue((currentQueue) =>
+      currentQueue.map((item) => {
+        if (!ids.includes(item.id) || (item.status !== 'pending' && item.status !== 'converting')) {
+          return item
+        }
+
+        if (item.converted) {
+          return { ...item, status: 'done', preset: item.converted.preset, error: undefined }
+        }
+
+        return { ...item, status: 'cancelled', error: undefined }
+      })
+    )
+  }
+
+  const cancelRemaining = () => {
+    cancelItems(
+      queueRef.current
+        .filter((item) => item.status === 'pending' || item.status === 'converting')
+        .map((item) => item.id)
+    )
+  }
+
+  const changeConcurrency = (nextConcurrency: number) => {
+    concurrencyRef.current = nextConcurrency
+    setConcurrency(nextConcurrency)
+    processQueue()
+  }
+
   const chooseOutputDirectory = async () => {
     if (!nativeExportAvailable) {
       setNotice({
@@ -570,12 +1548,8 @@ function App() {
     }
   }
 
-  const handleFiles = (files: FileList | File[]) => {
-    const incomingFiles = Array.from(files)
-    const imageFiles = incomingFiles.filter((file) => isImageFile(file))
-    const skippedCount = incomingFiles.length - imageFiles.length
-
-    if (imageFiles.length === 0) {
+  const enqueueItems = (newItems: QueuedImage[], skippedCount: number, convertsNatively: boolean) => {
+    if (newItems.length === 0) {
       setNotice({
         kind: 'info',
         message: 'Only image files can be converted here. Try PNG, JPG, GIF, TIFF, SVG, or WebP files.',
@@ -583,16 +1557,17 @@ function App() {
       return
     }
 
-    const newItems: QueuedImage[] = imageFiles.map((file) => ({
-      id: crypto.randomUUID(),
-      file,
-      previewUrl: URL.createObjectURL(file),
-      preset: clonePreset(selectedPreset),
-      status: 'pending',
-    }))
+    if (!convertsNatively && !isFormatSupported(selectedPreset.format)) {
+      newItems.forEach((item) => URL.revokeObjectURL(item.previewUrl))
+      setNotice({
+        kind: 'error',
+        message: getUnsupportedFormatMessage(selectedPreset.format),
+      })
+      return
+    }
 
     updateQueue((currentQueue) => [...currentQueue, ...newItems])
-    void processQueue()
+    processQueue()
 
     if (skippedCount > 0) {
       const label = skippedCount === 1 ? 'file was' : 'files were'
@@ -605,10 +1580,258 @@ function App() {
     }
   }
 
+  const handleSourceFiles = ({ sources, skippedCount }: CollectedSources<SourceFile>) => {
+    const newItems: QueuedImage[] = sources.map(({ file, relativePath }) => ({
+      id: crypto.randomUUID(),
+      name: file.name,
+      size: file.size,
+      file,
+      relativePath,
+      previewUrl: URL.createObjectURL(file),
+      preset: clonePreset(selectedPreset),
+      status: 'pending',
+    }))
+
+    enqueueItems(newItems, skippedCount, false)
+  }
+
+  const handleFiles = (files: FileList | File[]) => {
+    handleSourceFiles(collectPickedFiles(files))
+  }
+
+  const handlePaths = async (paths: string[]) => {
+    let collected
+    try {
+      collected = await collectPathSources(paths)
+    } catch {
+      setNotice({
+        kind: 'error',
+        message: 'We could not read that folder. Check that WebPeezy is allowed to open it.',
+      })
+      return
+    }
+
+    const newItems: QueuedImage[] = await Promise.all(
+      collected.sources.map(async ({ path, relativePath }) => ({
+        id: crypto.randomUUID(),
+        name: getPathTail(path),
+        size: await stat(path).then((info) => info.size, () => 0),
+        sourcePath: path,
+        relativePath,
+        previewUrl: convertFileSrc(path),
+        preset: clonePreset(selectedPreset),
+        status: 'pending' as const,
+      }))
+    )
+
+    enqueueItems(newItems, collected.skippedCount, true)
+  }
+
+  /** Copied files come through as paths on desktop, so they convert natively like dropped ones. */
+  const handlePastedSources = ({ files, paths }: PastedSources) => {
+    if (nativeExportAvailable && paths.length > 0) {
+      void handlePaths(paths)
+      return true
+    }
+
+    if (files.length > 0) {
+      handleFiles(files)
+      return true
+    }
+
+    return false
+  }
+
+  const pasteFromClipboard = async () => {
+    try {
+      const files = await readClipboardImages()
+      if (!handlePastedSources({ files, paths: [] })) {
+        setNotice({ kind: 'info', message: 'There is no image on the clipboard to paste.' })
+      }
+    } catch (error) {
+      setNotice({
+        kind: 'error',
+        message: error instanceof Error ? error.message : 'We could not read the clipboard.',
+      })
+    }
+  }
+
+  const handlePathsRef = useRef(handlePaths)
+  handlePathsRef.current = handlePaths
+  const handlePastedSourcesRef = useRef(handlePastedSources)
+  handlePastedSourcesRef.current = handlePastedSources
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (!event.clipboardData || target?.closest('input, textarea, select, [contenteditable="true"]')) {
+        return
+      }
+
+      if (handlePastedSourcesRef.current(collectPastedSources(event.clipboardData))) {
+        event.preventDefault()
+      }
+    }
+
+    window.addEventListener('paste', handlePaste)
+    return () => window.removeEventListener('paste', handlePaste)
+  }, [])
+
+  const processQueueRef = useRef(processQueue)
+  processQueueRef.current = processQueue
+
+  const refreshStorageSummary = async (sessionId: string) => {
+    const [estimate, summary] = await Promise.all([
+      getStorageEstimate(),
+      summarizeOlderSessions(sessionId).catch(() => null),
+    ])
+    setStorageEstimate(estimate)
+    setOlderSessions(summary)
+  }
+
+  useEffect(() => {
+    let cancelled = false
+
+    void loadStoredQueue()
+      .then((stored) => {
+        if (cancelled) {
+          stored.items.forEach(revokeQueueItemUrls)
+          return
+        }
+
+        queueSessionIdRef.current = stored.sessionId
+        queueOrdersRef.current = stored.orders
+        persistedQueueRef.current = new Map(stored.items.map((item) => [item.id, item]))
+        updateQueue((currentQueue) => [...stored.items, ...currentQueue])
+
+        if (stored.items.length > 0) {
+          setNotice({
+            kind: 'info',
+            message: `Restored ${stored.items.length} image${stored.items.length === 1 ? '' : 's'} from your last session.`,
+          })
+          processQueueRef.current()
+        }
+
+        void refreshStorageSummary(stored.sessionId)
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setNotice({
+            kind: 'error',
+            message: 'We could not open the saved queue, so this queue will not be kept after you close WebPeezy.',
+          })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    const sessionId = queueSessionIdRef.current
+    if (!sessionId) {
+      return
+    }
+
+    // Each save diffs against what was last written, so a failed write is retried with the next change.
+    const persistQueue = async () => {
+      const snapshot = queueRef.current
+      const changes = getQueueChanges(persistedQueueRef.current, snapshot, queueOrdersRef.current)
+      if (changes.put.length === 0 && changes.remove.length === 0) {
+        return
+      }
+
+      await saveQueueChanges(sessionId, changes)
+      persistedQueueRef.current = new Map(snapshot.map((item) => [item.id, item]))
+      await refreshStorageSummary(sessionId)
+    }
+
+    persistChainRef.current = persistChainRef.current
+      .then(persistQueue)
+      .catch(() => {
+        setNotice({
+          kind: 'error',
+          message: 'We could not save the queue for next time. Free up some disk space if this keeps happening.',
+        })
+      })
+  }, [queue])
+
+  const purgeOldSessions = async () => {
+    const sessionId = queueSessionIdRef.current
+    if (!sessionId) {
+      return
+    }
+
+    setIsPurgingSessions(true)
+
+    try {
+      await persistChainRef.current
+      const purged = await purgeOlderSessions<QueuedImage>(sessionId, getStoredBlobKeys)
+      purged.forEach((item) =>
+        getItemOutputs(item).forEach((output) => {
+          if (output.cachePath) {
+            void remove(output.cachePath).catch(() => undefined)
+          }
+        })
+      )
+      setNotice({
+        kind: 'success',
+        message: `Removed ${purged.length} image${purged.length === 1 ? '' : 's'} left from older sessions.`,
+      })
+    } catch {
+      setNotice({ kind: 'error', message: 'We could not clear the older sessions. Try again in a moment.' })
+    } finally {
+      setIsPurgingSessions(false)
+      await refreshStorageSummary(sessionId)
+    }
+  }
+
+  useEffect(() => {
+    if (!nativeExportAvailable) {
+      return
+    }
+
+    let unlisten: (() => void) | null = null
+    let disposed = false
+
+    void getCurrentWebview()
+      .onDragDropEvent((event) => {
+        if (event.payload.type === 'enter' || event.payload.type === 'over') {
+          setIsDragging(true)
+          return
+        }
+
+        setIsDragging(false)
+        if (event.payload.type === 'drop') {
+          void handlePathsRef.current(event.payload.paths)
+        }
+      })
+      .then((stopListening) => {
+        if (disposed) {
+          stopListening()
+        } else {
+          unlisten = stopListening
+        }
+      })
+
+    return () => {
+      disposed = true
+      unlisten?.()
+    }
+  }, [nativeExportAvailable])
+
   const handleDrop = (event: React.DragEvent) => {
     event.preventDefault()
     setIsDragging(false)
-    handleFiles(event.dataTransfer.files)
+    void collectDroppedFiles(event.dataTransfer)
+      .then(handleSourceFiles)
+      .catch(() => {
+        setNotice({
+          kind: 'error',
+          message: 'We could not read everything you dropped. Try adding the folder with the Add folder button.',
+        })
+      })
   }
 
   const handleDragOver = (event: React.DragEvent) => {
@@ -625,36 +1848,228 @@ function App() {
   }
 
   const triggerFilePicker = () => {
-    fileInputRef.current?.click()
+    if (!nativeExportAvailable) {
+      fileInputRef.current?.click()
+      return
+    }
+
+    void open({
+      multiple: true,
+      title: 'Choose images to convert',
+      filters: [{ name: 'Images', extensions: IMAGE_FILE_EXTENSIONS }],
+    })
+      .then((selected) => {
+        if (selected && selected.length > 0) {
+          void handlePaths(selected)
+        }
+      })
+      .catch((error: unknown) => {
+        setNotice({
+          kind: 'error',
+          message: error instanceof Error ? error.message : 'We could not open the file picker.',
+        })
+      })
+  }
+
+  const triggerFolderPicker = () => {
+    if (!nativeExportAvailable) {
+      folderInputRef.current?.click()
+      return
+    }
+
+    void open({
+      directory: true,
+      multiple: true,
+      recursive: true,
+      title: 'Choose folders of images to convert',
+    })
+      .then((selected) => {
+        if (selected && selected.length > 0) {
+          void handlePaths(selected)
+        }
+      })
+      .catch((error: unknown) => {
+        setNotice({
+          kind: 'error',
+          message: error instanceof Error ? error.message : 'We could not open the folder picker.',
+        })
+      })
   }
 
-  const downloadImage = (converted: ConvertedImage) => {
-    const baseName = sanitizeFileStem(converted.originalName)
+  const getItemFolder = (item: QueuedImage) => {
+    return mirrorFolders ? getRelativeFolder(item.relativePath).map((segment) => sanitizeSegment(segment) || 'untitled') : []
+  }
+
+  const downloadUrl = (url: string, fileName: string) => {
     const anchor = document.createElement('a')
-    anchor.href = converted.previewUrl
-    anchor.download = `${baseName}.webp`
+    anchor.href = url
+    anchor.download = fileName
     anchor.click()
   }
 
-  const getUniqueOutputPath = async (directory: string, originalName: string, reservedNames: Set<string>) => {
-    const baseName = sanitizeFileStem(originalName)
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob)
+    downloadUrl(url, fileName)
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  const downloadText = (text: string, fileName: string, type: string) => {
+    downloadBlob(new Blob([text], { type }), fileName)
+  }
+
+  const getQueueIndex = (id: string) => queueRef.current.findIndex((entry) => entry.id === id) + 1
+
+  const toRelativeName = (segments: string[]) => segments.join(nativeExportAvailable ? '/' : '-')
+
+  /** Names relative to where the item's srcset files go: its own folder on desktop, one flat list in downloads. */
+  const getPlannedFileNames = async (item: QueuedImage, date: Date) => {
+    const index = getQueueIndex(item.id)
+    const folder = nativeExportAvailable ? [] : getItemFolder(item)
+    return Promise.all(
+      getItemOutputs(item).map(async (output) =>
+        toRelativeName([...folder, ...getConvertedFileName(output, await getFileNameContext(output, index, date))])
+      )
+    )
+  }
+
+  const getDownloads = async (item: QueuedImage & { converted: ConvertedImage }, date: Date) => {
+    const outputs = getItemOutputs(item)
+    const fileNames = await getPlannedFileNames(item, date)
+    const downloads = outputs.map((output, index) => () => downloadUrl(output.previewUrl, fileNames[index]))
+
+    if (item.variants) {
+      const set = getResponsiveSet({ ...item, variants: item.variants }, fileNames)
+      downloads.push(
+        () =>
+          downloadText(
+            buildPictureSnippet(set),
+            toRelativeName([...getItemFolder(item), ...getResponsiveSidecarName(item.name, 'html')]),
+            'text/html'
+          ),
+        () =>
+          downloadText(
+            buildResponsiveManifest(set),
+            toRelativeName([...getItemFolder(item), ...getResponsiveSidecarName(item.name, 'json')]),
+            'application/json'
+          )
+      )
+    }
+
+    return downloads
+  }
+
+  const copyText = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setNotice({ kind: 'success', message: `Copied the ${label} to the clipboard.` })
+    } catch {
+      setNotice({ kind: 'error', message: `We could not copy the ${label}. Your browser may have blocked clipboard access.` })
+    }
+  }
+
+  /** Copies the output image, falling back to its saved path when the clipboard will not take images. */
+  const copyConvertedItem = async (id: string) => {
+    const item = queueRef.current.find((entry) => entry.id === id)
+    if (!item?.converted) {
+      return
+    }
+
+    try {
+      const format = await copyImageToClipboard(
+        getConvertedBlob(item.converted),
+        OUTPUT_FORMATS[item.converted.preset.format].mimeType
+      )
+      setNotice({
+        kind: 'success',
+        message:
+          format === 'png'
+            ? `Copied ${item.name} to the clipboard as a PNG, since the clipboard does not take ${OUTPUT_FORMATS[item.converted.preset.format].label} images.`
+            : `Copied ${item.name} to the clipboard.`,
+      })
+    } catch (error) {
+      if (item.savedPath) {
+        await copyText(item.savedPath, 'saved path')
+        return
+      }
+
+      setNotice({
+        kind: 'error',
+        message: error instanceof Error ? error.message : 'We could not copy this image to the clipboard.',
+      })
+    }
+  }
+
+  const copyResponsiveSnippet = (id: string, kind: 'html' | 'json') => {
+    const item = queueRef.current.find((entry) => entry.id === id)
+    if (!item?.variants) {
+      return
+    }
+
+    const variants = item.variants
+    void getPlannedFileNames(item, new Date()).then((fileNames) => {
+      const set = getResponsiveSet({ ...item, variants }, fileNames)
+      return copyText(
+        kind === 'html' ? buildPictureSnippet(set) : buildResponsiveManifest(set),
+        kind === 'html' ? 'picture snippet' : 'JSON manifest'
+      )
+    })
+  }
+
+  const askConflictResolution = (fileName: string) => {
+    setConflictApplyToAll(false)
+    return new Promise<{ resolution: ConflictResolution; applyToAll: boolean }>((resolve) => {
+      setConflictPrompt({
+        fileName,
+        resolve: (resolution, applyToAll) => {
+          setConflictPrompt(null)
+          resolve({ resolution, applyToAll })
+        },
+      })
+    })
+  }
+
+  /** Picks where a file goes under the session's conflict policy, or returns null to skip it. */
+  const resolveOutputPath = async (session: ExportSession, getSegments: (suffix: string) => string[]) => {
     let suffix = ''
     let counter = 2
 
     while (true) {
-      const fileName = `${baseName}${suffix}.webp`
-      const normalizedName = fileName.toLowerCase()
+      const segments = getSegments(suffix)
+      const relativeName = segments.join('/')
+      const normalizedName = relativeName.toLowerCase()
 
-      if (reservedNames.has(normalizedName)) {
+      if (session.reservedNames.has(normalizedName)) {
         suffix = `-${counter}`
         counter += 1
         continue
       }
 
-      const outputPath = await join(directory, fileName)
+      const outputPath = await join(session.directory, ...segments)
       if (!(await exists(outputPath))) {
-        reservedNames.add(normalizedName)
-        return outputPath
+        session.reservedNames.add(normalizedName)
+        return { outputPath, relativeName }
+      }
+
+      if (!suffix) {
+        let resolution = session.conflictPolicy === 'ask' ? null : session.conflictPolicy
+        if (!resolution) {
+          const answer = await askConflictResolution(relativeName)
+          resolution = answer.resolution
+          if (answer.applyToAll) {
+            session.conflictPolicy = resolution
+          }
+        }
+
+        if (resolution === 'skip') {
+          session.skipped += 1
+          return null
+        }
+
+        if (resolution === 'overwrite') {
+          session.overwritten += 1
+          session.reservedNames.add(normalizedName)
+          return { outputPath, relativeName }
+        }
       }
 
       suffix = `-${counter}`
@@ -662,16 +2077,75 @@ function App() {
     }
   }
 
-  const saveCompletedItem = async (
-    item: QueuedImage & { converted: ConvertedImage },
-    directory: string,
-    reservedNames: Set<string>
+  const saveConvertedFile = async (
+    converted: ConvertedImage,
+    context: FileNameContext,
+    session: ExportSession,
+    folder: string[]
   ) => {
-    const outputPath = await getUniqueOutputPath(directory, item.converted.originalName, reservedNames)
-    const data = new Uint8Array(await item.converted.blob.arrayBuffer())
+    const saved = await resolveOutputPath(session, (suffix) => [...folder, ...getConvertedFileName(converted, context, suffix)])
+    if (!saved) {
+      return null
+    }
 
-    await writeFile(outputPath, data)
-    return outputPath
+    if (saved.relativeName.includes('/')) {
+      await mkdir(await dirname(saved.outputPath), { recursive: true })
+    }
+
+    if (converted.cachePath) {
+      await copyFile(converted.cachePath, saved.outputPath)
+      return saved
+    }
+
+    const data = new Uint8Array(await converted.blob!.arrayBuffer())
+
+    await writeFile(saved.outputPath, data)
+    return saved
+  }
+
+  /** Saves every file for the item and returns the main output path, or null when all of them were skipped. */
+  const saveCompletedItem = async (item: QueuedImage & { converted: ConvertedImage }, session: ExportSession) => {
+    const index = getQueueIndex(item.id)
+    const folder = getItemFolder(item)
+
+    if (!item.variants) {
+      const context = await getFileNameContext(item.converted, index, session.date)
+      return (await saveConvertedFile(item.converted, context, session, folder))?.outputPath ?? null
+    }
+
+    const folderPrefix = folder.length > 0 ? `${folder.join('/')}/` : ''
+    const fileNames: string[] = []
+    let mainPath: string | null = null
+    for (const variant of item.variants) {
+      const context = await getFileNameContext(variant, index, session.date)
+      const entry = await saveConvertedFile(variant, context, session, folder)
+      fileNames.push(entry ? entry.relativeName.slice(folderPrefix.length) : getConvertedFileName(variant, context).join('/'))
+      mainPath = entry?.outputPath ?? mainPath
+    }
+
+    if (!mainPath) {
+      return null
+    }
+
+    const set = getResponsiveSet({ ...item, variants: item.variants }, fileNames)
+    const encoder = new TextEncoder()
+    const snippet = await resolveOutputPath(session, (suffix) => [
+      ...folder,
+      ...getResponsiveSidecarName(item.name, 'html', suffix),
+    ])
+    if (snippet) {
+      await writeFile(snippet.outputPath, encoder.encode(`${buildPictureSnippet(set)}\n`))
+    }
+
+    const manifest = await resolveOutputPath(session, (suffix) => [
+      ...folder,
+      ...getResponsiveSidecarName(item.name, 'json', suffix),
+    ])
+    if (manifest) {
+      await writeFile(manifest.outputPath, encoder.encode(`${buildResponsiveManifest(set)}\n`))
+    }
+
+    return mainPath
   }
 
   const exportItems = async (items: Array<QueuedImage & { converted: ConvertedImage }>, openFolderAfterSave: boolean) => {
@@ -683,17 +2157,44 @@ function App() {
       return
     }
 
+    const date = new Date()
+
     if (!nativeExportAvailable) {
-      items.forEach((item, index) => {
-        window.setTimeout(() => {
-          downloadImage(item.converted)
-        }, index * 120)
-      })
+      const controller = new AbortController()
+      saveControllerRef.current = controller
+      setSaveProgress({ current: 0, total: items.length })
+
+      let downloaded = 0
+      let fileCount = 0
+      for (const item of items) {
+        if (controller.signal.aborted) {
+          break
+        }
 
-      setNotice({
-        kind: 'success',
-        message: `Downloaded ${items.length} converted image${items.length === 1 ? '' : 's'}.`,
-      })
+        // Browsers drop downloads that start in the same tick, so they go out one at a time.
+        for (const download of await getDownloads(item, date)) {
+          download()
+          await new Promise((resolve) => window.setTimeout(resolve, DOWNLOAD_INTERVAL_MS))
+        }
+
+        downloaded += 1
+        fileCount += getItemOutputs(item).length
+        setSaveProgress({ current: downloaded, total: items.length })
+      }
+
+      saveControllerRef.current = null
+      setSaveProgress(null)
+      setNotice(
+        controller.signal.aborted
+          ? {
+              kind: 'info',
+              message: `Downloaded ${downloaded} of ${items.length} image${items.length === 1 ? '' : 's'} before you cancelled.`,
+            }
+          : {
+              kind: 'success',
+              message: `Downloaded ${fileCount} converted image${fileCount === 1 ? '' : 's'}.`,
+            }
+      )
       return
     }
 
@@ -706,15 +2207,32 @@ function App() {
       return
     }
 
+    const controller = new AbortController()
+    saveControllerRef.current = controller
     setSaveProgress({ current: 0, total: items.length })
 
     let saved = 0
     let failed = 0
-    const reservedNames = new Set<string>()
+    const session: ExportSession = {
+      directory: targetDirectory,
+      date,
+      reservedNames: new Set<string>(),
+      conflictPolicy,
+      overwritten: 0,
+      skipped: 0,
+    }
 
     for (const [index, item] of items.entries()) {
+      if (controller.signal.aborted) {
+        break
+      }
+
       try {
-        const savedPath = await saveCompletedItem(item, targetDirectory, reservedNames)
+        const savedPath = await saveCompletedItem(item, session)
+        if (!savedPath) {
+          continue
+        }
+
         saved += 1
 
         updateQueue((currentQueue) =>
@@ -744,37 +2262,169 @@ function App() {
       } finally {
         setSaveProgress({ current: index + 1, total: items.length })
       }
-    }
+    }
+
+    saveControllerRef.current = null
+    setSaveProgress(null)
+
+    const conflictSummary = [
+      session.overwritten > 0 ? `Overwrote ${session.overwritten} existing file${session.overwritten === 1 ? '' : 's'}.` : '',
+      session.skipped > 0 ? `Skipped ${session.skipped} file${session.skipped === 1 ? '' : 's'} that already existed.` : '',
+    ]
+      .filter(Boolean)
+      .join(' ')
+    const withConflicts = (message: string) => (conflictSummary ? `${message} ${conflictSummary}` : message)
+
+    if (controller.signal.aborted) {
+      setNotice({
+        kind: 'info',
+        message: withConflicts(
+          `Saved ${saved} of ${items.length} image${items.length === 1 ? '' : 's'} before you cancelled${failed > 0 ? `, and ${failed} could not be saved` : ''}.`
+        ),
+      })
+      return
+    }
+
+    if (saved > 0 && failed === 0) {
+      setNotice({
+        kind: 'success',
+        message: withConflicts(`Saved ${saved} image${saved === 1 ? '' : 's'} to ${truncatePath(targetDirectory)}.`),
+      })
+    } else if (saved > 0) {
+      setNotice({
+        kind: 'info',
+        message: withConflicts(
+          `Saved ${saved} image${saved === 1 ? '' : 's'}, but ${failed} still need${failed === 1 ? 's' : ''} attention.`
+        ),
+      })
+    } else if (failed === 0 && session.skipped > 0) {
+      setNotice({
+        kind: 'info',
+        message: `Nothing new was saved. ${conflictSummary}`,
+      })
+    } else {
+      setNotice({
+        kind: 'error',
+        message: 'We could not save any converted images. Try choosing a different folder.',
+      })
+    }
+
+    if (saved > 0 && openFolderAfterSave) {
+      try {
+        await openPath(targetDirectory)
+      } catch {
+        setNotice({
+          kind: failed > 0 ? 'info' : 'success',
+          message: withConflicts(`Saved ${saved} image${saved === 1 ? '' : 's'} to ${truncatePath(targetDirectory)}.`),
+        })
+      }
+    }
+  }
+
+  /** Puts every output, its srcset files and optionally a report into one ZIP, named and de-duplicated like a folder save. */
+  const downloadItemsAsZip = async (items: Array<QueuedImage & { converted: ConvertedImage }>) => {
+    if (items.length === 0) {
+      setNotice({
+        kind: 'info',
+        message: 'Nothing is ready to save yet. Finish converting at least one image first.',
+      })
+      return
+    }
+
+    const date = new Date()
+    const archiveName = `webpeezy-${formatDate(date)}.zip`
+    const archive = createZipArchive(date)
+    const reservedNames = new Set<string>()
+    const reportEntries: ReportEntry[] = []
+    const controller = new AbortController()
+    saveControllerRef.current = controller
+    setSaveProgress({ current: 0, total: items.length })
+
+    const reserveName = (getSegments: (suffix: string) => string[]) => {
+      let suffix = ''
+      let counter = 2
+      while (reservedNames.has(getSegments(suffix).join('/').toLowerCase())) {
+        suffix = `-${counter}`
+        counter += 1
+      }
+
+      const name = getSegments(suffix).join('/')
+      reservedNames.add(name.toLowerCase())
+      return name
+    }
+
+    try {
+      for (const [position, item] of items.entries()) {
+        if (controller.signal.aborted) {
+          break
+        }
+
+        const index = getQueueIndex(item.id)
+        const folder = getItemFolder(item)
+        const folderPrefix = folder.length > 0 ? `${folder.join('/')}/` : ''
+        const fileNames: string[] = []
+
+        for (const output of getItemOutputs(item)) {
+          const context = await getFileNameContext(output, index, date)
+          const name = reserveName((suffix) => [...folder, ...getConvertedFileName(output, context, suffix)])
+          await archive.add(name, output.blob ?? (await (await fetch(output.previewUrl)).blob()))
+          fileNames.push(name.slice(folderPrefix.length))
+        }
+
+        if (item.variants) {
+          const set = getResponsiveSet({ ...item, variants: item.variants }, fileNames)
+          await archive.add(
+            reserveName((suffix) => [...folder, ...getResponsiveSidecarName(item.name, 'html', suffix)]),
+            `${buildPictureSnippet(set)}\n`
+          )
+          await archive.add(
+            reserveName((suffix) => [...folder, ...getResponsiveSidecarName(item.name, 'json', suffix)]),
+            `${buildResponsiveManifest(set)}\n`
+          )
+        }
+
+        reportEntries.push(...getReportEntries(item, fileNames.map((fileName) => `${folderPrefix}${fileName}`)))
+        setSaveProgress({ current: position + 1, total: items.length })
+      }
 
-    setSaveProgress(null)
+      if (controller.signal.aborted) {
+        setNotice({ kind: 'info', message: 'You cancelled the ZIP download, so nothing was downloaded.' })
+        return
+      }
 
-    if (saved > 0 && failed === 0) {
+      if (zipIncludesReport) {
+        await archive.add(
+          reserveName((suffix) => [`${REPORT_FILE_STEM}${suffix}.${reportFormat}`]),
+          formatReport(reportFormat, reportEntries, date)
+        )
+      }
+
+      downloadBlob(archive.finish(), archiveName)
       setNotice({
         kind: 'success',
-        message: `Saved ${saved} image${saved === 1 ? '' : 's'} to ${truncatePath(targetDirectory)}.`,
-      })
-    } else if (saved > 0) {
-      setNotice({
-        kind: 'info',
-        message: `Saved ${saved} image${saved === 1 ? '' : 's'}, but ${failed} still need${failed === 1 ? 's' : ''} attention.`,
+        message: `Downloaded ${items.length} converted image${items.length === 1 ? '' : 's'} as ${archiveName}.`,
       })
-    } else {
+    } catch (error) {
       setNotice({
         kind: 'error',
-        message: 'We could not save any converted images. Try choosing a different folder.',
+        message: error instanceof Error ? error.message : 'We could not build the ZIP file.',
       })
+    } finally {
+      saveControllerRef.current = null
+      setSaveProgress(null)
     }
+  }
 
-    if (saved > 0 && openFolderAfterSave) {
-      try {
-        await openPath(targetDirectory)
-      } catch {
-        setNotice({
-          kind: failed > 0 ? 'info' : 'success',
-          message: `Saved ${saved} image${saved === 1 ? '' : 's'} to ${truncatePath(targetDirectory)}.`,
-        })
-      }
-    }
+  const downloadAllAsZip = async () => {
+    const items = queueRef.current.filter(
+      (item): item is QueuedImage & { converted: ConvertedImage } => isCompletedItem(item) && !item.savedPath
+    )
+
+    await downloadItemsAsZip(items)
+  }
+
+  const cancelSave = () => {
+    saveControllerRef.current?.abort()
   }
 
   const saveAllConverted = async () => {
@@ -794,6 +2444,75 @@ function App() {
     await exportItems([item], false)
   }
 
+  /** Queues items again with a new preset. Finished items keep showing their current output until the new one is ready. */
+  const reconvertItems = (ids: string[], preset: Preset) => {
+    updateQueue((currentQueue) =>
+      currentQueue.map((item) =>
+        ids.includes(item.id)
+          ? { ...item, preset: clonePreset(preset), status: 'pending', error: undefined, saveError: undefined }
+          : item
+      )
+    )
+
+    processQueue()
+  }
+
+  const openItemEditor = (item: QueuedImage) => {
+    setItemEditor({
+      id: item.id,
+      presetId: item.preset.id,
+      quality: item.preset.quality,
+      maxWidth: item.preset.maxWidth,
+      maxHeight: item.preset.maxHeight,
+    })
+  }
+
+  const getItemEditorBase = (item: QueuedImage, presetId: string) => {
+    return presetId === item.preset.id ? item.preset : (presets.find((preset) => preset.id === presetId) ?? item.preset)
+  }
+
+  const changeItemEditorPreset = (item: QueuedImage, presetId: string) => {
+    const base = getItemEditorBase(item, presetId)
+    setItemEditor({
+      id: item.id,
+      presetId,
+      quality: base.quality,
+      maxWidth: base.maxWidth,
+      maxHeight: base.maxHeight,
+    })
+  }
+
+  const applyItemEditor = (item: QueuedImage, editor: ItemEditor) => {
+    const base = getItemEditorBase(item, editor.presetId)
+    const isTweaked =
+      editor.quality !== base.quality || editor.maxWidth !== base.maxWidth || editor.maxHeight !== base.maxHeight
+    const preset = normalizePreset({
+      ...base,
+      id: isTweaked ? crypto.randomUUID() : base.id,
+      quality: editor.quality,
+      maxWidth: editor.maxWidth,
+      maxHeight: editor.maxHeight,
+      name: isTweaked && !base.name.endsWith(' (custom)') ? `${base.name} (custom)` : base.name,
+    })
+
+    setItemEditor(null)
+    reconvertItems([item.id], preset)
+  }
+
+  const toggleItemSelection = (id: string, selected: boolean) => {
+    setSelectedItemIds((current) => (selected ? [...current, id] : current.filter((entry) => entry !== id)))
+  }
+
+  const applyPresetToSelection = () => {
+    const ids = selectedItems.map((item) => item.id)
+    reconvertItems(ids, bulkPreset)
+    setSelectedItemIds([])
+    setNotice({
+      kind: 'info',
+      message: `Reconverting ${ids.length} image${ids.length === 1 ? '' : 's'} with "${bulkPreset.name}".`,
+    })
+  }
+
   const retryItem = (id: string) => {
     updateQueue((currentQueue) =>
       currentQueue.map((item) =>
@@ -809,10 +2528,223 @@ function App() {
       )
     )
 
-    void processQueue()
+    processQueue()
+  }
+
+  const addWatchLog = (kind: WatchLogEntry['kind'], message: string) => {
+    setWatchLog((currentLog) =>
+      [{ id: crypto.randomUUID(), time: Date.now(), kind, message }, ...currentLog].slice(0, MAX_WATCH_LOG_ENTRIES)
+    )
+  }
+
+  const saveWatchedItem = async (id: string) => {
+    const item = queueRef.current.find((entry) => entry.id === id)
+    const directory = outputDirectoryRef.current
+    const policy = conflictPolicyRef.current
+    if (!item || !isCompletedItem(item)) {
+      return
+    }
+
+    if (!directory) {
+      addWatchLog('info', `Skipped saving ${item.name} because no export folder is set.`)
+      return
+    }
+
+    // Nobody is around to answer a prompt, so "ask" refreshes the existing file instead.
+    const session: ExportSession = {
+      directory,
+      date: new Date(),
+      reservedNames: new Set<string>(),
+      conflictPolicy: policy === 'ask' ? 'overwrite' : policy,
+      overwritten: 0,
+      skipped: 0,
+    }
+
+    try {
+      const savedPath = await saveCompletedItem(item, session)
+      if (!savedPath) {
+        addWatchLog('info', `Skipped ${item.name} because the converted file already exists.`)
+        return
+      }
+
+      updateQueue((currentQueue) =>
+        currentQueue.map((entry) => (entry.id === id ? { ...entry, savedPath, saveError: undefined } : entry))
+      )
+      addWatchLog('success', `Saved ${getPathTail(savedPath)}${session.overwritten > 0 ? ', replacing the old file' : ''}.`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'This image could not be saved.'
+      updateQueue((currentQueue) =>
+        currentQueue.map((entry) => (entry.id === id ? { ...entry, saveError: message } : entry))
+      )
+      addWatchLog('error', `${item.name} could not be saved. ${message}`)
+    }
+  }
+
+  const queueWatchedFile = async (path: string, watchedFolder: WatchFolder) => {
+    const folder = watchFolders.find((entry) => entry.id === watchedFolder.id) ?? watchedFolder
+    const preset = presets.find((entry) => entry.id === folder.presetId) ?? selectedPreset
+    const existing = queueRef.current.find((item) => item.sourcePath === path)
+
+    if (existing?.status === 'pending' || existing?.status === 'converting') {
+      return
+    }
+
+    const size = await stat(path).then((info) => info.size, () => 0)
+
+    if (existing) {
+      getItemOutputs(existing).forEach(releaseConvertedImage)
+      updateQueue((currentQueue) =>
+        currentQueue.map((item) =>
+          item.id === existing.id
+            ? {
+                ...item,
+                size,
+                previewUrl: `${convertFileSrc(path)}?v=${Date.now()}`,
+                preset: clonePreset(preset),
+                watchFolderId: folder.id,
+                status: 'pending',
+                converted: undefined,
+                variants: undefined,
+                error: undefined,
+                savedPath: undefined,
+                saveError: undefined,
+              }
+            : item
+        )
+      )
+      addWatchLog('info', `${getPathTail(path)} changed, converting it again with ${preset.name}.`)
+    } else {
+      const newItem: QueuedImage = {
+        id: crypto.randomUUID(),
+        name: getPathTail(path),
+        size,
+        sourcePath: path,
+        relativePath: getWatchRelativePath(path, folder),
+        watchFolderId: folder.id,
+        previewUrl: convertFileSrc(path),
+        preset: clonePreset(preset),
+        status: 'pending',
+      }
+
+      updateQueue((currentQueue) => [...currentQueue, newItem])
+      addWatchLog('info', `Queued ${newItem.name} from ${getPathTail(folder.path)} with ${preset.name}.`)
+    }
+
+    processQueue()
+  }
+
+  const handleSettledWatchPath = (path: string, folder: WatchFolder) => {
+    if (watchPaused) {
+      heldWatchPathsRef.current.set(path, folder)
+      return
+    }
+
+    void queueWatchedFile(path, folder)
+  }
+
+  const handleSettledWatchPathRef = useRef(handleSettledWatchPath)
+  handleSettledWatchPathRef.current = handleSettledWatchPath
+  const watchFoldersRef = useRef(watchFolders)
+  watchFoldersRef.current = watchFolders
+
+  const addWatchFolder = async () => {
+    try {
+      const selected = await open({
+        directory: true,
+        multiple: true,
+        title: 'Choose folders to watch for new images',
+      })
+
+      if (!selected || selected.length === 0) {
+        return
+      }
+
+      setWatchFolders((currentFolders) => [
+        ...currentFolders,
+        ...selected
+          .filter((path) => !currentFolders.some((folder) => folder.path === path))
+          .map((path) => ({ id: crypto.randomUUID(), path, presetId: selectedPreset.id })),
+      ])
+    } catch (error) {
+      setNotice({
+        kind: 'error',
+        message: error instanceof Error ? error.message : 'We could not open the folder picker.',
+      })
+    }
+  }
+
+  const updateWatchFolder = (id: string, presetId: string) => {
+    setWatchFolders((currentFolders) =>
+      currentFolders.map((folder) => (folder.id === id ? { ...folder, presetId } : folder))
+    )
+  }
+
+  const removeWatchFolder = (id: string) => {
+    setWatchFolders((currentFolders) => currentFolders.filter((folder) => folder.id !== id))
+    heldWatchPathsRef.current.forEach((folder, path) => {
+      if (folder.id === id) {
+        heldWatchPathsRef.current.delete(path)
+      }
+    })
+  }
+
+  const toggleWatchPaused = () => {
+    if (!watchPaused) {
+      setWatchPaused(true)
+      addWatchLog('info', 'Paused. New files are noted and converted when you resume.')
+      return
+    }
+
+    setWatchPaused(false)
+    const held = Array.from(heldWatchPathsRef.current)
+    heldWatchPathsRef.current.clear()
+    addWatchLog(
+      'info',
+      held.length > 0 ? `Resumed with ${held.length} file${held.length === 1 ? '' : 's'} that arrived while paused.` : 'Resumed.'
+    )
+    held.forEach(([path, folder]) => void queueWatchedFile(path, folder))
   }
 
+  const watchKey = watchFolders.map((folder) => `${folder.id}:${folder.path}`).join('|')
+  const isWatchActive = nativeExportAvailable && watchFolders.length > 0 && Boolean(outputDirectory)
+
+  useEffect(() => {
+    if (!isWatchActive) {
+      return
+    }
+
+    let disposed = false
+    let stopWatching: (() => void) | null = null
+    const settler = createFileSettler((path, folder) => handleSettledWatchPathRef.current(path, folder))
+    void startWatchingFolders(watchFoldersRef.current, (path, folder) => {
+      if (isWatchedImagePath(path, outputDirectory)) {
+        settler.touch(path, folder)
+      }
+    })
+      .then((stop) => {
+        if (disposed) {
+          stop()
+          return
+        }
+
+        stopWatching = stop
+        setWatchError(null)
+      })
+      .catch((error: unknown) => {
+        if (!disposed) {
+          setWatchError(error instanceof Error ? error.message : 'We could not watch one of these folders.')
+        }
+      })
+
+    return () => {
+      disposed = true
+      stopWatching?.()
+      settler.dispose()
+    }
+  }, [isWatchActive, watchKey, outputDirectory])
+
   const removeFromQueue = (id: string) => {
+    conversionControllersRef.current.get(id)?.abort()
     const item = queueRef.current.find((entry) => entry.id === id)
     if (item) {
       revokeQueueItemUrls(item)
@@ -822,8 +2754,11 @@ function App() {
   }
 
   const clearQueue = () => {
+    conversionControllersRef.current.forEach((controller) => controller.abort())
     queueRef.current.forEach((item) => revokeQueueItemUrls(item))
     updateQueue([])
+    setSelectedItemIds([])
+    setItemEditor(null)
     setNotice(null)
   }
 
@@ -880,18 +2815,195 @@ function App() {
       return
     }
 
-    const filteredPresets = presets.filter((preset) => preset.id !== selectedPreset.id)
-    const nextPresets = filteredPresets.length > 0 ? filteredPresets : DEFAULT_PRESETS
-    const nextSelectedPreset = clonePreset(nextPresets[0])
-
-    setPresets(nextPresets)
-    setSelectedPresetId(nextSelectedPreset.id)
-    setPresetDraft(nextSelectedPreset)
-    setEditorMode('selected')
-    setNotice({
-      kind: 'success',
-      message: `Removed the "${selectedPreset.name}" preset.`,
+    const filteredPresets = presets.filter((preset) => preset.id !== selectedPreset.id)
+    const nextPresets = filteredPresets.length > 0 ? filteredPresets : DEFAULT_PRESETS
+    const nextSelectedPreset = clonePreset(nextPresets[0])
+
+    setPresets(nextPresets)
+    setSelectedPresetId(nextSelectedPreset.id)
+    setPresetDraft(nextSelectedPreset)
+    setEditorMode('selected')
+    setNotice({
+      kind: 'success',
+      message: `Removed the "${selectedPreset.name}" preset.`,
+    })
+  }
+
+  const exportConversionReport = async () => {
+    const date = new Date()
+    const text = formatReport(reportFormat, queueRef.current.flatMap((item) => getReportEntries(item)), date)
+    const fileName = `${REPORT_FILE_STEM}-${formatDate(date)}.${reportFormat}`
+    const type = reportFormat === 'csv' ? 'text/csv' : 'application/json'
+
+    if (!nativeExportAvailable) {
+      downloadText(text, fileName, type)
+      return
+    }
+
+    try {
+      const path = await save({
+        title: 'Export conversion report',
+        defaultPath: outputDirectory ? await join(outputDirectory, fileName) : fileName,
+        filters: [{ name: reportFormat === 'csv' ? 'CSV report' : 'JSON report', extensions: [reportFormat] }],
+      })
+      if (!path) {
+        return
+      }
+
+      await writeFile(path, new TextEncoder().encode(text))
+      setNotice({ kind: 'success', message: `Exported the conversion report to ${truncatePath(path)}.` })
+    } catch (error) {
+      setNotice({
+        kind: 'error',
+        message: error instanceof Error ? error.message : 'We could not export the conversion report.',
+      })
+    }
+  }
+
+  const exportPresetLibrary = async () => {
+    const text = serializePresetLibrary(presets, await exportWatermarkImages(presets))
+
+    if (!nativeExportAvailable) {
+      downloadText(text, PRESET_FILE_NAME, 'application/json')
+      return
+    }
+
+    try {
+      const path = await save({
+        title: 'Export presets',
+        defaultPath: outputDirectory ? await join(outputDirectory, PRESET_FILE_NAME) : PRESET_FILE_NAME,
+        filters: [{ name: 'Preset library', extensions: ['json'] }],
+      })
+      if (!path) {
+        return
+      }
+
+      await writeFile(path, new TextEncoder().encode(text))
+      setNotice({
+        kind: 'success',
+        message: `Exported ${presets.length} preset${presets.length === 1 ? '' : 's'} to ${truncatePath(path)}.`,
+      })
+    } catch (error) {
+      setNotice({
+        kind: 'error',
+        message: error instanceof Error ? error.message : 'We could not export your presets.',
+      })
+    }
+  }
+
+  const applyPresetImport = (incoming: Preset[], strategy: PresetCollisionStrategy) => {
+    const result = importPresets(presets, incoming, strategy, normalizePreset({}))
+    setPresets(result.presets)
+    setPresetImportPrompt(null)
+
+    const updatedSelection = result.presets.find((preset) => preset.id === selectedPreset.id)
+    if (editorMode === 'selected' && updatedSelection && updatedSelection !== selectedPreset) {
+      syncSelectedPreset(updatedSelection)
+    }
+
+    const parts = [
+      result.added > 0 ? `added ${result.added} new` : null,
+      result.replaced > 0 ? `replaced ${result.replaced}` : null,
+      result.duplicated > 0 ? `added ${result.duplicated} as copies` : null,
+      result.merged > 0 ? `merged ${result.merged} into ones you already had` : null,
+    ].filter(Boolean)
+
+    setNotice({
+      kind: 'success',
+      message: parts.length > 0 ? `Imported presets: ${parts.join(', ')}.` : 'There were no presets to import.',
+    })
+  }
+
+  const handlePresetLibraryText = async (text: string, fileName: string) => {
+    try {
+      const library = parsePresetLibrary(text)
+      await importWatermarkImages(library.watermarks)
+      const incoming = library.presets
+        .map((entry) => normalizePreset(entry as Partial<Preset>))
+        .filter((preset) => preset.name)
+      if (incoming.length === 0) {
+        setNotice({ kind: 'error', message: `${fileName} does not contain any presets we can use.` })
+        return
+      }
+
+      const collisions = countPresetCollisions(presets, incoming)
+      if (collisions === 0) {
+        applyPresetImport(incoming, 'duplicate')
+        return
+      }
+
+      setPresetImportPrompt({ fileName, presets: incoming, collisions })
+    } catch (error) {
+      setNotice({
+        kind: 'error',
+        message: error instanceof Error ? `${fileName}: ${error.message}` : `We could not read ${fileName}.`,
+      })
+    }
+  }
+
+  const triggerPresetImport = () => {
+    if (!nativeExportAvailable) {
+      presetFileInputRef.current?.click()
+      return
+    }
+
+    void open({
+      title: 'Import presets',
+      filters: [{ name: 'Preset library', extensions: ['json'] }],
+    })
+      .then(async (path) => {
+        if (path) {
+          await handlePresetLibraryText(new TextDecoder().decode(await readFile(path)), getPathSegments(path).at(-1) ?? path)
+        }
+      })
+      .catch((error: unknown) => {
+        setNotice({
+          kind: 'error',
+          message: error instanceof Error ? error.message : 'We could not open the preset file.',
+        })
+      })
+  }
+
+  const updateDraftWatermark = (changes: Partial<Watermark>) => {
+    setPresetDraft((current) =>
+      current.watermark ? { ...current, watermark: { ...current.watermark, ...changes } } : current
+    )
+  }
+
+  const applyWatermarkImage = async (image: Blob) => {
+    try {
+      updateDraftWatermark({ kind: 'image', imageId: await storeWatermarkImage(image) })
+    } catch (error) {
+      setNotice({
+        kind: 'error',
+        message: error instanceof Error ? error.message : 'We could not use that watermark image.',
+      })
+    }
+  }
+
+  const chooseWatermarkImage = () => {
+    if (!nativeExportAvailable) {
+      watermarkFileInputRef.current?.click()
+      return
+    }
+
+    void open({
+      title: 'Choose a watermark image',
+      filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg', 'webp'] }],
     })
+      .then(async (path) => {
+        if (path) {
+          const extension = path.split('.').pop()?.toLowerCase()
+          const type = WATERMARK_IMAGE_TYPES[extension === 'jpeg' ? 'jpg' : extension ?? ''] ?? ''
+          await applyWatermarkImage(new Blob([await readFile(path)], { type }))
+        }
+      })
+      .catch((error: unknown) => {
+        setNotice({
+          kind: 'error',
+          message: error instanceof Error ? error.message : 'We could not open the watermark image.',
+        })
+      })
   }
 
   const openExportFolder = async () => {
@@ -935,13 +3047,20 @@ function App() {
   if (saveProgress) {
     statusTone = 'saving'
     statusTitle = `Saving ${saveProgress.current} of ${saveProgress.total}`
-    statusDescription = outputDirectory
-      ? `Writing files to ${getPathTail(outputDirectory)}.`
-      : 'Writing converted files to your chosen folder.'
+    statusDescription = !nativeExportAvailable
+      ? 'Handing converted files to your browser one at a time.'
+      : outputDirectory
+        ? `Writing files to ${getPathTail(outputDirectory)}.`
+        : 'Writing converted files to your chosen folder.'
+  } else if (queuePaused && pendingCount > 0) {
+    statusTitle = 'Queue paused'
+    statusDescription = convertingCount
+      ? `Finishing ${convertingCount} in progress. ${pendingCount} waiting until you resume.`
+      : `${pendingCount} waiting until you resume.`
   } else if (isProcessing) {
     statusTone = 'processing'
-    statusTitle = `Converting ${convertingPosition || completedCount + 1} of ${queue.length}`
-    statusDescription = `${completedCount} finished, ${pendingCount} waiting${errorCount ? `, ${errorCount} need attention` : ''}.`
+    statusTitle = `Converting ${queue.length - pendingCount} of ${queue.length}`
+    statusDescription = `${completedCount} finished, ${pendingCount} waiting${convertingCount > 1 ? `, ${convertingCount} in parallel` : ''}${errorCount ? `, ${errorCount} need attention` : ''}.`
   } else if (queue.length > 0 && errorCount > 0) {
     statusTone = 'error'
     statusTitle = 'Some images need attention'
@@ -957,7 +3076,7 @@ function App() {
     <div className="app">
       <header className="header">
         <div className="header-copy">
-          <span className="eyebrow">Desktop WebP converter</span>
+          <span className="eyebrow">Desktop image converter</span>
           <h1 className="logo">WebPeezy</h1>
           <p className="subtitle">Drop images, choose a preset, and save the whole batch to one folder.</p>
         </div>
@@ -1006,6 +3125,28 @@ function App() {
                 </motion.button>
               ))}
             </div>
+
+            <div className="preset-library-actions">
+              <button className="btn-secondary btn-compact" type="button" onClick={triggerPresetImport}>
+                Import presets
+              </button>
+              <button className="btn-secondary btn-compact" type="button" onClick={() => void exportPresetLibrary()}>
+                Export presets
+              </button>
+              <input
+                ref={presetFileInputRef}
+                className="visually-hidden"
+                type="file"
+                accept="application/json,.json"
+                onChange={(event) => {
+                  const file = event.target.files?.[0]
+                  if (file) {
+                    void file.text().then((text) => handlePresetLibraryText(text, file.name))
+                  }
+                  event.target.value = ''
+                }}
+              />
+            </div>
           </section>
 
           <section className="panel-section editor-card">
@@ -1036,10 +3177,37 @@ function App() {
               />
             </div>
 
+            <div className="form-group">
+              <label className="form-label" htmlFor="preset-format">
+                Output format
+              </label>
+              <select
+                id="preset-format"
+                className="form-input"
+                value={presetDraft.format}
+                onChange={(event) =>
+                  setPresetDraft({
+                    ...presetDraft,
+                    format: event.target.value as OutputFormat,
+                  })
+                }
+              >
+                {OUTPUT_FORMAT_ORDER.map((format) => (
+                  <option key={format} value={format} disabled={!isFormatSupported(format)}>
+                    {OUTPUT_FORMATS[format].label}
+                    {isFormatSupported(format) ? '' : ' (not supported here)'}
+                  </option>
+                ))}
+              </select>
+              {!isFormatSupported(presetDraft.format) && (
+                <span className="form-hint error">{getUnsupportedFormatMessage(presetDraft.format)}</span>
+              )}
+            </div>
+
             <div className="form-grid">
               <div className="form-group">
                 <label className="form-label" htmlFor="preset-width">
-                  Max width
+                  {presetDraft.fit === 'scale-down' ? 'Max width' : 'Width'}
                 </label>
                 <input
                   id="preset-width"
@@ -1060,7 +3228,7 @@ function App() {
 
               <div className="form-group">
                 <label className="form-label" htmlFor="preset-height">
-                  Max height
+                  {presetDraft.fit === 'scale-down' ? 'Max height' : 'Height'}
                 </label>
                 <input
                   id="preset-height"
@@ -1081,6 +3249,321 @@ function App() {
             </div>
 
             <div className="form-group">
+              <label className="form-label" htmlFor="preset-fit">
+                Fit
+              </label>
+              <select
+                id="preset-fit"
+                className="form-input"
+                value={presetDraft.fit}
+                onChange={(event) =>
+                  setPresetDraft({
+                    ...presetDraft,
+                    fit: event.target.value as FitMode,
+                  })
+                }
+              >
+                {FIT_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+              <span className="form-hint">
+                {presetDraft.fit !== 'scale-down' && (!presetDraft.maxWidth || !presetDraft.maxHeight)
+                  ? 'Set both a width and a height to use this fit. Until then images scale to fit.'
+                  : FIT_MODES.find((mode) => mode.value === presetDraft.fit)?.description}
+              </span>
+            </div>
+
+            {(presetDraft.fit === 'cover' || presetDraft.fit === 'contain') && (
+              <div className="form-grid">
+                <div className="form-group">
+                  <label className="form-label" htmlFor="preset-anchor">
+                    {presetDraft.fit === 'cover' ? 'Crop from' : 'Position'}
+                  </label>
+                  <select
+                    id="preset-anchor"
+                    className="form-input"
+                    value={presetDraft.anchor}
+                    onChange={(event) =>
+                      setPresetDraft({
+                        ...presetDraft,
+                        anchor: event.target.value as CropAnchor,
+                      })
+                    }
+                  >
+                    {CROP_ANCHORS.map((anchor) => (
+                      <option key={anchor.value} value={anchor.value}>
+                        {anchor.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {presetDraft.fit === 'contain' && (
+                  <div className="form-group">
+                    <label className="form-label" htmlFor="preset-pad-color">
+                      Padding
+                    </label>
+                    <div className="color-field">
+                      <input
+                        id="preset-pad-color"
+                        className="color-input"
+                        type="color"
+                        value={presetDraft.padColor === 'transparent' ? '#ffffff' : presetDraft.padColor}
+                        disabled={presetDraft.padColor === 'transparent'}
+                        onChange={(event) =>
+                          setPresetDraft({
+                            ...presetDraft,
+                            padColor: event.target.value,
+                          })
+                        }
+                      />
+                      <label className="form-check">
+                        <input
+                          type="checkbox"
+                          checked={presetDraft.padColor === 'transparent'}
+                          onChange={(event) =>
+                            setPresetDraft({
+                              ...presetDraft,
+                              padColor: event.target.checked ? 'transparent' : '#ffffff',
+                            })
+                          }
+                        />
+                        <span>Transparent</span>
+                      </label>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {presetDraft.fit !== 'exact' && (presetDraft.maxWidth || presetDraft.maxHeight) && (
+              <label className="form-check">
+                <input
+                  type="checkbox"
+                  checked={presetDraft.allowUpscale}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      allowUpscale: event.target.checked,
+                    })
+                  }
+                />
+                <span>Allow upscaling smaller images</span>
+              </label>
+            )}
+
+            <div className="form-grid">
+              <div className="form-group">
+                <label className="form-label" htmlFor="preset-resampling">
+                  Resampling
+                </label>
+                <select
+                  id="preset-resampling"
+                  className="form-input"
+                  value={presetDraft.resampling}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      resampling: event.target.value as ResampleFilter,
+                    })
+                  }
+                >
+                  {RESAMPLE_FILTERS.map((filter) => (
+                    <option key={filter.value} value={filter.value}>
+                      {filter.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <div className="slider-row">
+                  <label className="form-label" htmlFor="preset-sharpen">
+                    Sharpen
+                  </label>
+                  <span className="slider-value">{presetDraft.sharpen}%</span>
+                </div>
+                <input
+                  id="preset-sharpen"
+                  className="form-slider"
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={presetDraft.sharpen}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      sharpen: parseInt(event.target.value, 10),
+                    })
+                  }
+                />
+              </div>
+            </div>
+            <span className="form-hint">
+              {RESAMPLE_FILTERS.find((filter) => filter.value === presetDraft.resampling)?.description} A little
+              sharpening brings back crispness lost when shrinking a lot.
+            </span>
+            <ResamplingPreview
+              filter={presetDraft.resampling}
+              filterLabel={RESAMPLE_FILTERS.find((filter) => filter.value === presetDraft.resampling)?.label ?? ''}
+              sharpen={presetDraft.sharpen}
+            />
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="preset-responsive-widths">
+                Responsive widths
+              </label>
+              <input
+                key={`${presetDraft.id}-${presetDraft.responsiveWidths.join(',')}`}
+                id="preset-responsive-widths"
+                className="form-input"
+                type="text"
+                inputMode="numeric"
+                defaultValue={presetDraft.responsiveWidths.join(', ')}
+                onBlur={(event) =>
+                  setPresetDraft({
+                    ...presetDraft,
+                    responsiveWidths: parseResponsiveWidths(event.target.value),
+                  })
+                }
+                placeholder="e.g. 320, 640, 1280, 1920"
+              />
+              <span className="form-hint">
+                {isResponsivePreset(presetDraft)
+                  ? `Each image becomes ${presetDraft.responsiveWidths.length} files named like photo-${presetDraft.responsiveWidths[0]}w, plus a srcset snippet and manifest. These widths replace the max width.`
+                  : `Leave empty for a single output. Up to ${MAX_RESPONSIVE_WIDTHS} widths.`}
+              </span>
+            </div>
+
+            {isResponsivePreset(presetDraft) && (
+              <div className="form-group">
+                <label className="form-label" htmlFor="preset-responsive-sizes">
+                  Sizes attribute
+                </label>
+                <input
+                  id="preset-responsive-sizes"
+                  className="form-input"
+                  type="text"
+                  value={presetDraft.responsiveSizes}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      responsiveSizes: event.target.value,
+                    })
+                  }
+                  placeholder={DEFAULT_RESPONSIVE_SIZES}
+                />
+              </div>
+            )}
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="preset-file-name">
+                File name
+              </label>
+              <input
+                id="preset-file-name"
+                className="form-input"
+                type="text"
+                value={presetDraft.fileNameTemplate}
+                onChange={(event) =>
+                  setPresetDraft({
+                    ...presetDraft,
+                    fileNameTemplate: event.target.value,
+                  })
+                }
+                placeholder={DEFAULT_FILE_NAME_TEMPLATE}
+                spellCheck={false}
+                aria-invalid={Boolean(fileNameTemplateError)}
+              />
+              {fileNameTemplateError ? (
+                <span className="form-hint error">{fileNameTemplateError}</span>
+              ) : (
+                <span className="form-hint">Example: {getFileNamePreview(presetDraft)}</span>
+              )}
+              <span className="form-hint">
+                {FILE_NAME_TOKENS.map((entry) => (
+                  <code key={entry.token} className="token-chip" title={entry.description}>
+                    {`{${entry.token}}`}
+                  </code>
+                ))}
+                {' '}Use / to save into folders.
+              </span>
+              <span className="form-hint">
+                Examples:{' '}
+                {FILE_NAME_EXAMPLES.map((example) => (
+                  <code key={example} className="token-chip">
+                    {example}
+                  </code>
+                ))}
+                {' '}A trailing .{'{ext}'} is optional; the format's extension is always added.
+              </span>
+            </div>
+
+            {presetDraft.format === 'webp' && (
+              <div className="form-group">
+                <label className="form-label" htmlFor="preset-compression">
+                  Compression
+                </label>
+                <select
+                  id="preset-compression"
+                  className="form-input"
+                  value={presetDraft.compression}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      compression: event.target.value as CompressionMode,
+                    })
+                  }
+                >
+                  {COMPRESSION_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="form-hint">
+                  {presetDraft.compression === 'lossless'
+                    ? 'Every pixel is kept exactly. Best for screenshots, logos and UI.'
+                    : presetDraft.compression === 'near-lossless'
+                      ? 'Lossless encoding with light pixel preprocessing for smaller files.'
+                      : 'Smallest files. Best for photos.'}
+                </span>
+              </div>
+            )}
+
+            {presetDraft.format === 'webp' && presetDraft.compression === 'near-lossless' && (
+              <div className="form-group">
+                <div className="slider-row">
+                  <label className="form-label" htmlFor="preset-near-lossless">
+                    Near-lossless level
+                  </label>
+                  <span className="slider-value">{presetDraft.nearLossless}</span>
+                </div>
+                <input
+                  id="preset-near-lossless"
+                  className="form-slider"
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={presetDraft.nearLossless}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      nearLossless: parseInt(event.target.value, 10),
+                    })
+                  }
+                />
+                <div className="slider-labels">
+                  <span>Smaller file</span>
+                  <span>Closer to lossless</span>
+                </div>
+              </div>
+            )}
+
+            <div className={`form-group ${isQualityAdjustable(presetDraft) ? '' : 'disabled'}`}>
               <div className="slider-row">
                 <label className="form-label" htmlFor="preset-quality">
                   Quality
@@ -1094,6 +3577,7 @@ function App() {
                 min="1"
                 max="100"
                 value={presetDraft.quality}
+                disabled={!isQualityAdjustable(presetDraft)}
                 onChange={(event) =>
                   setPresetDraft({
                     ...presetDraft,
@@ -1107,7 +3591,160 @@ function App() {
               </div>
             </div>
 
-            <div className="form-group">
+            {isQualityAdjustable(presetDraft) && (
+              <div className="form-group">
+                <label className="form-label" htmlFor="preset-max-size">
+                  Max file size (KB)
+                </label>
+                <input
+                  id="preset-max-size"
+                  className="form-input"
+                  type="number"
+                  inputMode="numeric"
+                  min="1"
+                  value={presetDraft.maxFileSizeKb ?? ''}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      maxFileSizeKb: event.target.value ? parseInt(event.target.value, 10) : null,
+                    })
+                  }
+                  placeholder="No budget"
+                />
+                <label className="form-check">
+                  <input
+                    type="checkbox"
+                    checked={presetDraft.allowBudgetDownscale}
+                    disabled={!presetDraft.maxFileSizeKb}
+                    onChange={(event) =>
+                      setPresetDraft({
+                        ...presetDraft,
+                        allowBudgetDownscale: event.target.checked,
+                      })
+                    }
+                  />
+                  <span>Shrink dimensions if the budget cannot be met</span>
+                </label>
+                <span className="form-hint">
+                  {presetDraft.maxFileSizeKb
+                    ? `Quality is lowered from ${presetDraft.quality}% down to ${TARGET_SIZE_MIN_QUALITY}% until the file fits.`
+                    : 'Leave empty to always use the quality above.'}
+                </span>
+              </div>
+            )}
+
+            <div className="form-grid">
+              <div className="form-group">
+                <label className="form-label" htmlFor="preset-min-ssim">
+                  Minimum SSIM
+                </label>
+                <input
+                  id="preset-min-ssim"
+                  className="form-input"
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  max="1"
+                  step="0.005"
+                  value={presetDraft.minSsim ?? ''}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      minSsim: event.target.value ? normalizeMinSsim(parseFloat(event.target.value)) : null,
+                    })
+                  }
+                  placeholder="No minimum"
+                />
+                <span className="form-hint">1 is identical. Photos usually look clean above 0.95.</span>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label" htmlFor="preset-min-ssim-action">
+                  Below the minimum
+                </label>
+                <select
+                  id="preset-min-ssim-action"
+                  className="form-input"
+                  value={presetDraft.minSsimAction}
+                  disabled={presetDraft.minSsim === null}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      minSsimAction: event.target.value as QualityFloorAction,
+                    })
+                  }
+                >
+                  {QUALITY_FLOOR_ACTIONS.map((action) => (
+                    <option key={action.value} value={action.value}>
+                      {action.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {presetDraft.format === 'webp' && presetDraft.compression === 'lossy' && (
+              <div className="form-group">
+                <div className="slider-row">
+                  <label className="form-label" htmlFor="preset-alpha-quality">
+                    Transparency quality
+                  </label>
+                  <span className="slider-value">{presetDraft.alphaQuality}%</span>
+                </div>
+                <input
+                  id="preset-alpha-quality"
+                  className="form-slider"
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={presetDraft.alphaQuality}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      alphaQuality: parseInt(event.target.value, 10),
+                    })
+                  }
+                />
+                <div className="slider-labels">
+                  <span>Smaller file</span>
+                  <span>Cleaner edges</span>
+                </div>
+              </div>
+            )}
+
+            {(presetDraft.format === 'webp' || presetDraft.format === 'avif') && (
+              <div className="form-group">
+                <div className="slider-row">
+                  <label className="form-label" htmlFor="preset-effort">
+                    Encoder effort
+                  </label>
+                  <span className="slider-value">{presetDraft.effort}</span>
+                </div>
+                <input
+                  id="preset-effort"
+                  className="form-slider"
+                  type="range"
+                  min="0"
+                  max="6"
+                  value={presetDraft.effort}
+                  onChange={(event) =>
+                    setPresetDraft({
+                      ...presetDraft,
+                      effort: parseInt(event.target.value, 10),
+                    })
+                  }
+                />
+                <div className="slider-labels">
+                  <span>Faster</span>
+                  <span>Smaller file</span>
+                </div>
+                {presetDraft.format === 'avif' && (
+                  <span className="form-hint">AVIF effort is applied by the desktop encoder.</span>
+                )}
+              </div>
+            )}
+
+            <div className={`form-group${isResponsivePreset(presetDraft) ? ' disabled' : ''}`}>
               <div className="slider-row">
                 <label className="form-label" htmlFor="preset-resize">
                   Resize by percentage
@@ -1115,23 +3752,209 @@ function App() {
                 <span className="slider-value">{presetDraft.reducePercent}%</span>
               </div>
               <input
-                id="preset-resize"
-                className="form-slider"
-                type="range"
-                min="0"
-                max="95"
-                value={presetDraft.reducePercent}
+                id="preset-resize"
+                className="form-slider"
+                type="range"
+                min="0"
+                max="95"
+                value={presetDraft.reducePercent}
+                disabled={isResponsivePreset(presetDraft)}
+                onChange={(event) =>
+                  setPresetDraft({
+                    ...presetDraft,
+                    reducePercent: parseInt(event.target.value, 10),
+                  })
+                }
+              />
+              <div className="slider-labels">
+                <span>No resize</span>
+                <span>Much smaller</span>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="preset-animation">
+                Animated GIF & WebP
+              </label>
+              <select
+                id="preset-animation"
+                className="form-input"
+                value={presetDraft.animation}
+                onChange={(event) =>
+                  setPresetDraft({
+                    ...presetDraft,
+                    animation: event.target.value as AnimationMode,
+                  })
+                }
+              >
+                {ANIMATION_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+              {presetDraft.animation === 'keep' && presetDraft.format !== 'webp' && (
+                <span className="form-hint">
+                  {OUTPUT_FORMATS[presetDraft.format].label} cannot animate, so only the first frame is kept.
+                </span>
+              )}
+            </div>
+
+            <label className="form-check">
+              <input
+                type="checkbox"
+                checked={presetDraft.watermark !== null}
                 onChange={(event) =>
                   setPresetDraft({
                     ...presetDraft,
-                    reducePercent: parseInt(event.target.value, 10),
+                    watermark: event.target.checked ? { ...DEFAULT_WATERMARK } : null,
                   })
                 }
               />
-              <div className="slider-labels">
-                <span>No resize</span>
-                <span>Much smaller</span>
+              <span>Add a watermark</span>
+            </label>
+
+            {presetDraft.watermark && (
+              <div className="watermark-settings">
+                <div className="form-grid">
+                  <div className="form-group">
+                    <label className="form-label" htmlFor="preset-watermark-kind">
+                      Watermark
+                    </label>
+                    <select
+                      id="preset-watermark-kind"
+                      className="form-input"
+                      value={presetDraft.watermark.kind}
+                      onChange={(event) => updateDraftWatermark({ kind: event.target.value as WatermarkKind })}
+                    >
+                      {WATERMARK_KINDS.map((kind) => (
+                        <option key={kind.value} value={kind.value}>
+                          {kind.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label className="form-label" htmlFor="preset-watermark-anchor">
+                      Position
+                    </label>
+                    <select
+                      id="preset-watermark-anchor"
+                      className="form-input"
+                      value={presetDraft.watermark.anchor}
+                      onChange={(event) => updateDraftWatermark({ anchor: event.target.value as CropAnchor })}
+                    >
+                      {CROP_ANCHORS.map((anchor) => (
+                        <option key={anchor.value} value={anchor.value}>
+                          {anchor.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {presetDraft.watermark.kind === 'text' ? (
+                  <div className="form-group">
+                    <label className="form-label" htmlFor="preset-watermark-text">
+                      Text
+                    </label>
+                    <div className="color-field">
+                      <input
+                        id="preset-watermark-text"
+                        className="form-input"
+                        type="text"
+                        value={presetDraft.watermark.text}
+                        onChange={(event) => updateDraftWatermark({ text: event.target.value })}
+                        placeholder="e.g. © Your Name"
+                      />
+                      <input
+                        className="color-input"
+                        type="color"
+                        aria-label="Watermark color"
+                        value={presetDraft.watermark.color}
+                        onChange={(event) => updateDraftWatermark({ color: event.target.value })}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="form-group">
+                    <span className="form-label">Image</span>
+                    <button className="btn-secondary btn-compact" type="button" onClick={chooseWatermarkImage}>
+                      {presetDraft.watermark.imageId ? 'Replace image' : 'Choose image'}
+                    </button>
+                    <input
+                      ref={watermarkFileInputRef}
+                      className="visually-hidden"
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0]
+                        if (file) {
+                          void applyWatermarkImage(file)
+                        }
+                        event.target.value = ''
+                      }}
+                    />
+                    <span className="form-hint">PNG, JPEG or WebP under 1 MB. Transparent PNGs work best.</span>
+                  </div>
+                )}
+
+                {WATERMARK_SLIDERS.map((slider) => (
+                  <div key={slider.key} className="form-group">
+                    <div className="slider-row">
+                      <label className="form-label" htmlFor={`preset-watermark-${slider.key}`}>
+                        {slider.label}
+                      </label>
+                      <span className="slider-value">{presetDraft.watermark![slider.key]}%</span>
+                    </div>
+                    <input
+                      id={`preset-watermark-${slider.key}`}
+                      className="form-slider"
+                      type="range"
+                      min={slider.min}
+                      max={slider.max}
+                      value={presetDraft.watermark![slider.key]}
+                      onChange={(event) => updateDraftWatermark({ [slider.key]: parseInt(event.target.value, 10) })}
+                    />
+                  </div>
+                ))}
+
+                <WatermarkPreview
+                  watermark={presetDraft.watermark}
+                  outputWidth={presetDraft.maxWidth}
+                  outputHeight={presetDraft.maxHeight}
+                />
               </div>
+            )}
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="preset-metadata">
+                Metadata
+              </label>
+              <select
+                id="preset-metadata"
+                className="form-input"
+                value={presetDraft.metadata}
+                onChange={(event) =>
+                  setPresetDraft({
+                    ...presetDraft,
+                    metadata: event.target.value as MetadataPolicy,
+                  })
+                }
+              >
+                {METADATA_POLICIES.map((policy) => (
+                  <option key={policy.value} value={policy.value}>
+                    {policy.label}
+                  </option>
+                ))}
+              </select>
+              <span className="form-hint">
+                {METADATA_POLICIES.find((policy) => policy.value === presetDraft.metadata)?.description}
+                {presetDraft.metadata !== 'strip' && presetDraft.format === 'avif'
+                  ? ' AVIF output cannot carry metadata yet.'
+                  : ''}
+              </span>
             </div>
 
             <p className="helper-text">
@@ -1208,7 +4031,202 @@ function App() {
                   : 'No extra setup needed here when you are previewing the app in a browser.'}
               </p>
             )}
+
+            <label className="form-check">
+              <input
+                type="checkbox"
+                checked={mirrorFolders}
+                onChange={(event) => setMirrorFolders(event.target.checked)}
+              />
+              <span>
+                {nativeExportAvailable
+                  ? 'Recreate the subfolders of imported folders'
+                  : 'Keep the subfolders of imported folders in downloads'}
+              </span>
+            </label>
+
+            {!nativeExportAvailable && (
+              <label className="form-check">
+                <input
+                  type="checkbox"
+                  checked={zipIncludesReport}
+                  onChange={(event) => setZipIncludesReport(event.target.checked)}
+                />
+                <span>Include a conversion report ({reportFormat.toUpperCase()}) in ZIP downloads</span>
+              </label>
+            )}
+
+            {nativeExportAvailable && (
+              <div className="form-group">
+                <label className="form-label" htmlFor="conflict-policy">
+                  When a file already exists
+                </label>
+                <select
+                  id="conflict-policy"
+                  className="form-input"
+                  value={conflictPolicy}
+                  onChange={(event) => setConflictPolicy(event.target.value as ConflictPolicy)}
+                >
+                  {CONFLICT_POLICIES.map((policy) => (
+                    <option key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="form-hint">
+                  {CONFLICT_POLICIES.find((policy) => policy.value === conflictPolicy)?.description}
+                </span>
+              </div>
+            )}
+          </section>
+
+          <section className="panel-section">
+            <div className="section-heading">
+              <div className="panel-heading-copy">
+                <span className="panel-label">Performance</span>
+                <p className="panel-copy">
+                  {workersAvailable
+                    ? 'Images convert in background workers, so the app stays responsive during big batches.'
+                    : 'This runtime cannot convert in background workers, so images convert on the main thread.'}
+                </p>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label" htmlFor="conversion-concurrency">
+                Parallel conversions
+              </label>
+              <select
+                id="conversion-concurrency"
+                className="form-input"
+                value={concurrency}
+                onChange={(event) => changeConcurrency(parseInt(event.target.value, 10))}
+              >
+                {Array.from({ length: MAX_CONCURRENCY }, (_, index) => index + 1).map((value) => (
+                  <option key={value} value={value}>
+                    {value === 1 ? '1 image at a time' : `${value} images at a time`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </section>
+
+          <section className="panel-section">
+            <div className="section-heading">
+              <div className="panel-heading-copy">
+                <span className="panel-label">Saved queue</span>
+                <p className="panel-copy">
+                  The queue and its results are kept on this device, so closing the app does not lose your work.
+                </p>
+              </div>
+            </div>
+
+            {storageEstimate && (
+              <div className="storage-usage">
+                <div className="status-progress" aria-hidden="true">
+                  <span
+                    className="status-progress-bar"
+                    style={{ width: `${Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)}%` }}
+                  />
+                </div>
+                <p className="form-hint">
+                  {formatBytes(storageEstimate.usage)} used of {formatBytes(storageEstimate.quota)} available
+                </p>
+              </div>
+            )}
+
+            {olderSessions && olderSessions.sessionCount > 0 ? (
+              <div className="editor-actions-right solo">
+                <button
+                  className="btn-secondary btn-compact"
+                  onClick={() => void purgeOldSessions()}
+                  disabled={isPurgingSessions}
+                >
+                  {isPurgingSessions ? 'Purging...' : 'Purge old sessions'}
+                </button>
+              </div>
+            ) : null}
+
+            <p className="form-hint">
+              {olderSessions && olderSessions.sessionCount > 0
+                ? `${olderSessions.itemCount} image${olderSessions.itemCount === 1 ? '' : 's'} from ${olderSessions.sessionCount} older session${olderSessions.sessionCount === 1 ? '' : 's'} still take up space.`
+                : 'Clear the queue to free the space it uses.'}
+            </p>
           </section>
+
+          {nativeExportAvailable && (
+            <section className="panel-section">
+              <div className="section-heading">
+                <div className="panel-heading-copy">
+                  <span className="panel-label">Watch folders</span>
+                  <p className="panel-copy">
+                    New or changed images in these folders convert and save to the export folder automatically.
+                  </p>
+                </div>
+
+                <button className="btn-secondary btn-compact" onClick={() => void addWatchFolder()}>
+                  Add folder
+                </button>
+              </div>
+
+              {watchFolders.length > 0 && (
+                <div className="watch-folder-list">
+                  {watchFolders.map((folder) => (
+                    <div key={folder.id} className="watch-folder">
+                      <div className="path-badge">
+                        <span>{getPathTail(folder.path)}</span>
+                        <small>{truncatePath(folder.path)}</small>
+                      </div>
+                      <div className="watch-folder-controls">
+                        <select
+                          className="form-input"
+                          value={folder.presetId}
+                          onChange={(event) => updateWatchFolder(folder.id, event.target.value)}
+                          aria-label={`Preset for ${getPathTail(folder.path)}`}
+                        >
+                          {!presets.some((preset) => preset.id === folder.presetId) && (
+                            <option value={folder.presetId}>Selected preset</option>
+                          )}
+                          {presets.map((preset) => (
+                            <option key={preset.id} value={preset.id}>
+                              {preset.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          className="btn-secondary btn-compact"
+                          onClick={() => removeWatchFolder(folder.id)}
+                          aria-label={`Stop watching ${getPathTail(folder.path)}`}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {watchFolders.length > 0 && (
+                <div className="editor-actions-right solo">
+                  <button className="btn-secondary btn-compact" onClick={toggleWatchPaused}>
+                    {watchPaused ? 'Resume watching' : 'Pause watching'}
+                  </button>
+                </div>
+              )}
+
+              <p className={`form-hint${watchError ? ' error' : ''}`}>
+                {watchError
+                  ? watchError
+                  : watchFolders.length === 0
+                    ? 'Add a folder your team exports into and WebPeezy will pick up new images as they land.'
+                    : !outputDirectory
+                      ? 'Choose an export folder above to start watching.'
+                      : watchPaused
+                        ? 'Paused. Files that arrive now are converted when you resume.'
+                        : 'Watching for new images.'}
+              </p>
+            </section>
+          )}
         </aside>
 
         <section className="workspace">
@@ -1298,6 +4316,18 @@ function App() {
                 event.target.value = ''
               }}
             />
+            <input
+              ref={folderInputRef}
+              className="visually-hidden"
+              type="file"
+              multiple
+              onChange={(event) => {
+                if (event.target.files) {
+                  handleFiles(event.target.files)
+                }
+                event.target.value = ''
+              }}
+            />
 
             <AnimatePresence mode="wait">
               {queue.length === 0 ? (
@@ -1319,17 +4349,40 @@ function App() {
                   </h2>
                   <p className="drop-hint">
                     WebPeezy keeps your chosen preset front and center, then saves the finished batch wherever you want.
+                    Screenshots and copied images can be pasted too.
                   </p>
-                  <button
-                    className="btn-primary drop-cta"
-                    type="button"
-                    onClick={(event) => {
-                      event.stopPropagation()
-                      triggerFilePicker()
-                    }}
-                  >
-                    Choose images
-                  </button>
+                  <div className="drop-actions">
+                    <button
+                      className="btn-primary drop-cta"
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        triggerFilePicker()
+                      }}
+                    >
+                      Choose images
+                    </button>
+                    <button
+                      className="btn-secondary drop-cta"
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        triggerFolderPicker()
+                      }}
+                    >
+                      Choose a folder
+                    </button>
+                    <button
+                      className="btn-secondary drop-cta"
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        void pasteFromClipboard()
+                      }}
+                    >
+                      Paste
+                    </button>
+                  </div>
                 </motion.div>
               ) : (
                 <motion.div
@@ -1344,19 +4397,78 @@ function App() {
                     <div className="queue-heading">
                       <h2 className="queue-title">Conversion queue</h2>
                       <p className="queue-subtitle">
-                        {completedCount} finished, {pendingCount} waiting, {errorCount} with issues.
+                        {completedCount} finished, {pendingCount} waiting, {errorCount} with issues
+                        {cancelledCount > 0 && `, ${cancelledCount} cancelled`}.
                       </p>
                     </div>
 
-                    <button
-                      className="btn-secondary btn-compact"
-                      type="button"
-                      onClick={triggerFilePicker}
-                    >
-                      Add images
-                    </button>
+                    <div className="queue-toolbar-actions">
+                      {(queuePaused || pendingCount > 0 || convertingCount > 0) && (
+                        <button className="btn-secondary btn-compact" type="button" onClick={toggleQueuePaused}>
+                          {queuePaused ? 'Resume' : 'Pause'}
+                        </button>
+                      )}
+                      {pendingCount + convertingCount > 0 && (
+                        <button className="btn-secondary btn-compact" type="button" onClick={cancelRemaining}>
+                          Cancel remaining
+                        </button>
+                      )}
+                      <button
+                        className="btn-secondary btn-compact"
+                        type="button"
+                        onClick={triggerFolderPicker}
+                      >
+                        Add folder
+                      </button>
+                      <button
+                        className="btn-secondary btn-compact"
+                        type="button"
+                        onClick={triggerFilePicker}
+                      >
+                        Add images
+                      </button>
+                      <button
+                        className="btn-secondary btn-compact"
+                        type="button"
+                        onClick={() => void pasteFromClipboard()}
+                      >
+                        Paste
+                      </button>
+                    </div>
                   </div>
 
+                  {selectedItems.length > 0 && (
+                    <div className="queue-selection-bar">
+                      <span className="queue-selection-count">{selectedItems.length} selected</span>
+                      <select
+                        className="form-input"
+                        value={bulkPreset.id}
+                        onChange={(event) => setBulkPresetId(event.target.value)}
+                        aria-label="Preset to apply to the selected images"
+                      >
+                        {presets.map((preset) => (
+                          <option key={preset.id} value={preset.id}>
+                            {preset.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button className="btn-primary btn-compact" type="button" onClick={applyPresetToSelection}>
+                        Apply preset
+                      </button>
+                      <button
+                        className="btn-secondary btn-compact"
+                        type="button"
+                        onClick={() => setSelectedItemIds(queue.map((item) => item.id))}
+                        disabled={selectedItems.length === queue.length}
+                      >
+                        Select all
+                      </button>
+                      <button className="btn-secondary btn-compact" type="button" onClick={() => setSelectedItemIds([])}>
+                        Clear
+                      </button>
+                    </div>
+                  )}
+
                   <div className="queue-list">
                     {queue.map((item, index) => (
                       <motion.div
@@ -1369,13 +4481,30 @@ function App() {
                         <div className="queue-item-preview">
                           <img
                             src={item.converted?.previewUrl || item.previewUrl}
-                            alt={`${item.file.name} preview`}
+                            alt={`${item.name} preview`}
+                          />
+                          <input
+                            className="queue-item-select"
+                            type="checkbox"
+                            checked={selectedItemIds.includes(item.id)}
+                            onChange={(event) => toggleItemSelection(item.id, event.target.checked)}
+                            aria-label={`Select ${item.name}`}
                           />
+                          {item.converted?.animation && (
+                            <span
+                              className={`queue-item-badge${item.converted.animation.kept ? '' : ' still'}`}
+                              title={item.converted.animation.kept ? 'Animated output' : 'Only the first frame was kept'}
+                            >
+                              {item.converted.animation.kept
+                                ? `${item.converted.animation.frameCount} frames`
+                                : `1 of ${item.converted.animation.frameCount}`}
+                            </span>
+                          )}
                         </div>
 
                         <div className="queue-item-main">
                           <div className="queue-item-top">
-                            <span className="queue-item-name">{item.file.name}</span>
+                            <span className="queue-item-name">{item.name}</span>
                             <span className={`queue-status ${item.status}`}>
                               {item.status === 'done'
                                 ? item.savedPath
@@ -1384,26 +4513,54 @@ function App() {
                                 : item.status === 'converting'
                                   ? 'Converting'
                                   : item.status === 'pending'
-                                    ? 'Queued'
-                                    : 'Needs retry'}
+                                    ? queuePaused
+                                      ? 'Paused'
+                                      : 'Queued'
+                                    : item.status === 'cancelled'
+                                      ? 'Cancelled'
+                                      : 'Needs retry'}
                             </span>
                           </div>
 
                           <div className="queue-meta">
+                            {item.relativePath && getRelativeFolder(item.relativePath).length > 0 && (
+                              <span className="queue-meta-item">{getRelativeFolder(item.relativePath).join('/')}/</span>
+                            )}
                             <span className="queue-meta-item">{item.preset.name}</span>
-                            <span className="queue-meta-item">{formatBytes(item.file.size)}</span>
+                            <span className="queue-meta-item">
+                              {OUTPUT_FORMATS[item.preset.format].label} • {getEncodingLabel(item.preset)}
+                            </span>
+                            <span className="queue-meta-item">{formatBytes(item.size)}</span>
                             {item.converted && (
                               <>
                                 <span className="queue-meta-item">
                                   {item.converted.originalWidth} x {item.converted.originalHeight}
                                   {' → '}
-                                  {item.converted.outputWidth} x {item.converted.outputHeight}
+                                  {item.variants
+                                    ? `${item.variants.map((variant) => variant.outputWidth).join(', ')}w`
+                                    : `${item.converted.outputWidth} x ${item.converted.outputHeight}`}
                                 </span>
+                                {item.variants && (
+                                  <span className="queue-meta-item">
+                                    {item.variants.length} file{item.variants.length === 1 ? '' : 's'} •{' '}
+                                    {formatBytes(item.variants.reduce((total, variant) => total + variant.convertedSize, 0))} total
+                                  </span>
+                                )}
                                 <span className="queue-meta-item">
                                   {formatBytes(item.converted.convertedSize)} •
                                   {' '}
                                   {getSavingsPercent(item.converted.originalSize, item.converted.convertedSize)}% smaller
                                 </span>
+                                <span className="queue-meta-item">{getMetadataLabel(item.converted)}</span>
+                                {item.converted.qualityScore && (
+                                  <span className="queue-meta-item">{formatQualityScore(item.converted.qualityScore)}</span>
+                                )}
+                                {item.converted.sizeTarget && (
+                                  <span className="queue-meta-item">
+                                    Budget {formatBytes(item.converted.sizeTarget.maxBytes)} • {item.converted.sizeTarget.quality}% quality
+                                    {item.converted.sizeTarget.downscaled ? ' • shrunk to fit' : ''}
+                                  </span>
+                                )}
                               </>
                             )}
                           </div>
@@ -1411,6 +4568,23 @@ function App() {
                           {item.status === 'error' && item.error && (
                             <span className="queue-note error">{item.error}</span>
                           )}
+                          {item.status === 'done' && item.error && (
+                            <span className="queue-note warning">{item.error}</span>
+                          )}
+                          {item.converted?.sizeTarget && !item.converted.sizeTarget.met && (
+                            <span className="queue-note warning">
+                              Still over the {formatBytes(item.converted.sizeTarget.maxBytes)} budget at{' '}
+                              {item.converted.sizeTarget.quality}% quality.
+                            </span>
+                          )}
+                          {item.converted?.metadataDropped && item.converted.metadataDropped.length > 0 && (
+                            <span className="queue-note warning">
+                              {item.converted.metadataDropped.join(' and ')} was too large for a JPEG file and was left out.
+                            </span>
+                          )}
+                          {item.status === 'done' && getQualityFloorMessage(getItemOutputs(item)) && (
+                            <span className="queue-note warning">{getQualityFloorMessage(getItemOutputs(item))}</span>
+                          )}
                           {item.savedPath && (
                             <span className="queue-note success">
                               Saved to {getPathTail(item.savedPath)}
@@ -1419,16 +4593,173 @@ function App() {
                           {item.saveError && (
                             <span className="queue-note error">{item.saveError}</span>
                           )}
+
+                          {itemEditor?.id === item.id && (
+                            <div className="queue-item-editor">
+                              <div className="form-group">
+                                <label className="form-label" htmlFor={`item-preset-${item.id}`}>
+                                  Preset
+                                </label>
+                                <select
+                                  id={`item-preset-${item.id}`}
+                                  className="form-input"
+                                  value={itemEditor.presetId}
+                                  onChange={(event) => changeItemEditorPreset(item, event.target.value)}
+                                >
+                                  {!presets.some((preset) => preset.id === item.preset.id) && (
+                                    <option value={item.preset.id}>{item.preset.name}</option>
+                                  )}
+                                  {presets.map((preset) => (
+                                    <option key={preset.id} value={preset.id}>
+                                      {preset.name}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                              <div className="form-group">
+                                <label className="form-label" htmlFor={`item-quality-${item.id}`}>
+                                  Quality
+                                </label>
+                                <input
+                                  id={`item-quality-${item.id}`}
+                                  className="form-input"
+                                  type="number"
+                                  inputMode="numeric"
+                                  min="1"
+                                  max="100"
+                                  value={itemEditor.quality}
+                                  onChange={(event) =>
+                                    setItemEditor({
+                                      ...itemEditor,
+                                      quality: clamp(parseInt(event.target.value, 10) || 1, 1, 100),
+                                    })
+                                  }
+                                />
+                              </div>
+                              <div className="form-group">
+                                <label className="form-label" htmlFor={`item-width-${item.id}`}>
+                                  Width
+                                </label>
+                                <input
+                                  id={`item-width-${item.id}`}
+                                  className="form-input"
+                                  type="number"
+                                  inputMode="numeric"
+                                  min="1"
+                                  value={itemEditor.maxWidth ?? ''}
+                                  onChange={(event) =>
+                                    setItemEditor({
+                                      ...itemEditor,
+                                      maxWidth: event.target.value ? parseInt(event.target.value, 10) : null,
+                                    })
+                                  }
+                                  placeholder="Any"
+                                />
+                              </div>
+                              <div className="form-group">
+                                <label className="form-label" htmlFor={`item-height-${item.id}`}>
+                                  Height
+                                </label>
+                                <input
+                                  id={`item-height-${item.id}`}
+                                  className="form-input"
+                                  type="number"
+                                  inputMode="numeric"
+                                  min="1"
+                                  value={itemEditor.maxHeight ?? ''}
+                                  onChange={(event) =>
+                                    setItemEditor({
+                                      ...itemEditor,
+                                      maxHeight: event.target.value ? parseInt(event.target.value, 10) : null,
+                                    })
+                                  }
+                                  placeholder="Any"
+                                />
+                              </div>
+                              <div className="queue-item-editor-actions">
+                                <button className="btn-secondary btn-compact" type="button" onClick={() => setItemEditor(null)}>
+                                  Cancel
+                                </button>
+                                <button
+                                  className="btn-primary btn-compact"
+                                  type="button"
+                                  onClick={() => applyItemEditor(item, itemEditor)}
+                                >
+                                  Reconvert
+                                </button>
+                              </div>
+                            </div>
+                          )}
                         </div>
 
                         <div className="queue-item-actions">
-                          {item.status === 'error' && (
+                          {(item.status === 'pending' || item.status === 'converting') && (
+                            <button
+                              className="btn-secondary btn-compact"
+                              type="button"
+                              onClick={() => cancelItems([item.id])}
+                            >
+                              Cancel
+                            </button>
+                          )}
+
+                          {(item.status === 'error' || item.status === 'cancelled') && (
                             <button
                               className="btn-secondary btn-compact"
                               type="button"
                               onClick={() => retryItem(item.id)}
                             >
-                              Retry
+                              {item.status === 'cancelled' ? 'Convert' : 'Retry'}
+                            </button>
+                          )}
+
+                          {item.status !== 'converting' && itemEditor?.id !== item.id && (
+                            <button
+                              className="btn-secondary btn-compact"
+                              type="button"
+                              onClick={() => openItemEditor(item)}
+                            >
+                              Change preset
+                            </button>
+                          )}
+
+                          {item.status === 'done' && item.variants && (
+                            <>
+                              <button
+                                className="btn-secondary btn-compact"
+                                type="button"
+                                onClick={() => copyResponsiveSnippet(item.id, 'html')}
+                              >
+                                Copy HTML
+                              </button>
+                              <button
+                                className="btn-secondary btn-compact"
+                                type="button"
+                                onClick={() => copyResponsiveSnippet(item.id, 'json')}
+                              >
+                                Copy manifest
+                              </button>
+                            </>
+                          )}
+
+                          {isCompletedItem(item) && (
+                            <button
+                              className="btn-secondary btn-compact"
+                              type="button"
+                              onClick={() => setComparisonItemId(item.id)}
+                            >
+                              Compare
+                            </button>
+                          )}
+
+                          {isCompletedItem(item) && (
+                            <button
+                              className="btn-secondary btn-compact"
+                              type="button"
+                              onClick={() => void copyConvertedItem(item.id)}
+                              aria-label={`Copy the converted ${item.name}`}
+                            >
+                              Copy
                             </button>
                           )}
 
@@ -1456,7 +4787,7 @@ function App() {
                             className="btn-secondary btn-compact"
                             type="button"
                             onClick={() => removeFromQueue(item.id)}
-                            aria-label={`Remove ${item.file.name} from the queue`}
+                            aria-label={`Remove ${item.name} from the queue`}
                           >
                             Remove
                           </button>
@@ -1471,25 +4802,227 @@ function App() {
 
           {queue.length > 0 && (
             <div className="queue-actions">
-              <button className="btn-secondary" onClick={clearQueue} disabled={isProcessing || Boolean(saveProgress)}>
-                Clear queue
-              </button>
+              {saveProgress ? (
+                <button className="btn-secondary" onClick={cancelSave}>
+                  Cancel save
+                </button>
+              ) : (
+                <button className="btn-secondary" onClick={clearQueue} disabled={isProcessing}>
+                  Clear queue
+                </button>
+              )}
+
+              <div className="report-export">
+                <select
+                  className="form-input"
+                  value={reportFormat}
+                  onChange={(event) => setReportFormat(event.target.value as ReportFormat)}
+                  aria-label="Report format"
+                >
+                  <option value="csv">CSV</option>
+                  <option value="json">JSON</option>
+                </select>
+                <button
+                  className="btn-secondary"
+                  onClick={() => void exportConversionReport()}
+                  disabled={isProcessing || completedCount + errorCount === 0}
+                >
+                  Export report
+                </button>
+              </div>
+
+              {!nativeExportAvailable && (
+                <button
+                  className="btn-secondary"
+                  onClick={() => void saveAllConverted()}
+                  disabled={unsavedCompletedCount === 0 || isProcessing || Boolean(saveProgress)}
+                >
+                  Download separately
+                </button>
+              )}
 
               <button
                 className="btn-primary"
-                onClick={() => void saveAllConverted()}
+                onClick={() => void (nativeExportAvailable ? saveAllConverted() : downloadAllAsZip())}
                 disabled={unsavedCompletedCount === 0 || isProcessing || Boolean(saveProgress)}
               >
                 {nativeExportAvailable
                   ? outputDirectory
                     ? `Save ${unsavedCompletedCount} ready image${unsavedCompletedCount === 1 ? '' : 's'}`
                     : `Choose folder & save ${unsavedCompletedCount}`
-                  : `Download ${unsavedCompletedCount} ready image${unsavedCompletedCount === 1 ? '' : 's'}`}
+                  : `Download ${unsavedCompletedCount} as ZIP`}
               </button>
             </div>
           )}
+
+          {nativeExportAvailable && (watchFolders.length > 0 || watchLog.length > 0) && (
+            <section className="watch-log" aria-live="polite">
+              <div className="watch-log-heading">
+                <span className="panel-label">Watch activity</span>
+                {watchLog.length > 0 && (
+                  <button className="btn-secondary btn-compact" onClick={() => setWatchLog([])}>
+                    Clear
+                  </button>
+                )}
+              </div>
+              {watchLog.length === 0 ? (
+                <p className="helper-text">Nothing has happened in the watched folders yet.</p>
+              ) : (
+                <ul className="watch-log-list">
+                  {watchLog.map((entry) => (
+                    <li key={entry.id} className={`watch-log-entry ${entry.kind}`}>
+                      <time>{formatLogTime(entry.time)}</time>
+                      <span>{entry.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
         </section>
       </main>
+
+      <AnimatePresence>
+        {comparisonItem && (
+          <ComparisonViewer
+            title={comparisonItem.name}
+            position={`${comparisonIndex + 1} of ${comparableItems.length}`}
+            before={getComparisonBefore(comparisonItem, comparisonItem.converted)}
+            after={getComparisonAfter(comparisonItem.converted)}
+            width={comparisonItem.converted.outputWidth}
+            height={comparisonItem.converted.outputHeight}
+            fit={getEffectiveFit(comparisonItem.converted.preset)}
+            anchor={comparisonItem.converted.preset.anchor}
+            onPrevious={
+              comparisonIndex > 0 ? () => setComparisonItemId(comparableItems[comparisonIndex - 1].id) : undefined
+            }
+            onNext={
+              comparisonIndex < comparableItems.length - 1
+                ? () => setComparisonItemId(comparableItems[comparisonIndex + 1].id)
+                : undefined
+            }
+            onClose={() => setComparisonItemId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {conflictPrompt && (
+          <motion.div
+            className="dialog-backdrop"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="dialog"
+              role="alertdialog"
+              aria-modal="true"
+              aria-labelledby="conflict-dialog-title"
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 12 }}
+            >
+              <h2 id="conflict-dialog-title" className="dialog-title">
+                This file already exists
+              </h2>
+              <p className="dialog-copy">
+                <strong>{conflictPrompt.fileName}</strong> is already in the export folder. What should happen to it?
+              </p>
+              <label className="form-check">
+                <input
+                  type="checkbox"
+                  checked={conflictApplyToAll}
+                  onChange={(event) => setConflictApplyToAll(event.target.checked)}
+                />
+                <span>Do this for every conflict in this batch</span>
+              </label>
+              <div className="dialog-actions">
+                <button
+                  className="btn-secondary btn-compact"
+                  type="button"
+                  onClick={() => conflictPrompt.resolve('skip', conflictApplyToAll)}
+                >
+                  Skip
+                </button>
+                <button
+                  className="btn-secondary btn-compact"
+                  type="button"
+                  onClick={() => conflictPrompt.resolve('rename', conflictApplyToAll)}
+                >
+                  Keep both
+                </button>
+                <button
+                  className="btn-primary btn-compact"
+                  type="button"
+                  onClick={() => conflictPrompt.resolve('overwrite', conflictApplyToAll)}
+                  autoFocus
+                >
+                  Overwrite
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {presetImportPrompt && (
+          <motion.div
+            className="dialog-backdrop"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="dialog"
+              role="alertdialog"
+              aria-modal="true"
+              aria-labelledby="preset-import-dialog-title"
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 12 }}
+            >
+              <h2 id="preset-import-dialog-title" className="dialog-title">
+                Some presets already exist
+              </h2>
+              <p className="dialog-copy">
+                {presetImportPrompt.collisions} of the {presetImportPrompt.presets.length} presets in{' '}
+                <strong>{presetImportPrompt.fileName}</strong> share a name or id with one you already have. Presets
+                that are new are added either way.
+              </p>
+              <div className="dialog-actions">
+                <button className="btn-secondary btn-compact" type="button" onClick={() => setPresetImportPrompt(null)}>
+                  Cancel
+                </button>
+                <button
+                  className="btn-secondary btn-compact"
+                  type="button"
+                  onClick={() => applyPresetImport(presetImportPrompt.presets, 'merge')}
+                  title="Keep your versions, filling in settings you left at their defaults from the file"
+                >
+                  Merge
+                </button>
+                <button
+                  className="btn-secondary btn-compact"
+                  type="button"
+                  onClick={() => applyPresetImport(presetImportPrompt.presets, 'duplicate')}
+                >
+                  Keep both
+                </button>
+                <button
+                  className="btn-primary btn-compact"
+                  type="button"
+                  onClick={() => applyPresetImport(presetImportPrompt.presets, 'replace')}
+                  autoFocus
+                >
+                  Replace
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   )
 }
@@ -0,0 +1,365 @@
+import { useEffect, useRef, useState } from 'react'
+import { motion } from 'motion/react'
+import type { CropAnchor, FitMode } from './conversion'
+
+const MAX_ZOOM = 4
+const ZOOM_STEPS = [0.25, 0.5, 1, 2, 3, 4]
+const WHEEL_ZOOM_SPEED = 0.0015
+const SPLIT_KEY_STEP = 5
+
+type ComparisonMode = 'split' | 'difference'
+type DragKind = 'split' | 'pan'
+
+interface Point {
+  x: number
+  y: number
+}
+
+export interface ComparisonSide {
+  url: string
+  label: string
+  details: string[]
+}
+
+interface ComparisonViewerProps {
+  title: string
+  position: string
+  before: ComparisonSide
+  after: ComparisonSide
+  width: number
+  height: number
+  fit: FitMode
+  anchor: CropAnchor
+  onPrevious?: () => void
+  onNext?: () => void
+  onClose: () => void
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * The original is laid over the output's frame the same way the preset framed it, so cropped,
+ * padded and stretched outputs still line up with their source.
+ */
+const getBeforeStyle = (fit: FitMode, anchor: CropAnchor): React.CSSProperties => ({
+  objectFit: fit === 'cover' ? 'cover' : fit === 'contain' ? 'contain' : 'fill',
+  objectPosition: anchor.replace('-', ' '),
+})
+
+const ComparisonViewer = ({
+  title,
+  position,
+  before,
+  after,
+  width,
+  height,
+  fit,
+  anchor,
+  onPrevious,
+  onNext,
+  onClose,
+}: ComparisonViewerProps) => {
+  const [mode, setMode] = useState<ComparisonMode>('split')
+  const [split, setSplit] = useState(50)
+  const [zoom, setZoom] = useState<number | 'fit'>('fit')
+  const [pan, setPan] = useState<Point>({ x: 0, y: 0 })
+  const [stageSize, setStageSize] = useState<Point>({ x: 0, y: 0 })
+  const [failedUrls, setFailedUrls] = useState<string[]>([])
+  const stageRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ kind: DragKind; start: Point; pan: Point } | null>(null)
+
+  const fitScale = stageSize.x > 0 ? Math.min(stageSize.x / width, stageSize.y / height, MAX_ZOOM) : 1
+  const scale = zoom === 'fit' ? fitScale : zoom
+  const minScale = Math.min(fitScale, ZOOM_STEPS[0])
+  const contentWidth = width * scale
+  const contentHeight = height * scale
+
+  const clampPan = (next: Point, nextScale: number): Point => {
+    const limitX = Math.max(0, (width * nextScale - stageSize.x) / 2)
+    const limitY = Math.max(0, (height * nextScale - stageSize.y) / 2)
+    return { x: clamp(next.x, -limitX, limitX), y: clamp(next.y, -limitY, limitY) }
+  }
+
+  /** Zooms while keeping the image point under `focus` (stage coordinates) in place. */
+  const zoomTo = (nextZoom: number | 'fit', focus?: Point) => {
+    const nextScale = nextZoom === 'fit' ? fitScale : clamp(nextZoom, minScale, MAX_ZOOM)
+    if (nextZoom === 'fit') {
+      setZoom('fit')
+      setPan({ x: 0, y: 0 })
+      return
+    }
+
+    const center = { x: stageSize.x / 2, y: stageSize.y / 2 }
+    const anchorPoint = focus ?? center
+    const imagePoint = {
+      x: (anchorPoint.x - center.x - pan.x) / scale,
+      y: (anchorPoint.y - center.y - pan.y) / scale,
+    }
+
+    setZoom(nextScale)
+    setPan(
+      clampPan(
+        {
+          x: anchorPoint.x - center.x - imagePoint.x * nextScale,
+          y: anchorPoint.y - center.y - imagePoint.y * nextScale,
+        },
+        nextScale
+      )
+    )
+  }
+
+  const stepZoom = (direction: 1 | -1) => {
+    const next =
+      direction > 0
+        ? ZOOM_STEPS.find((step) => step > scale + 0.001)
+        : [...ZOOM_STEPS].reverse().find((step) => step < scale - 0.001)
+
+    if (next === undefined || (direction < 0 && next < fitScale)) {
+      zoomTo(direction > 0 ? MAX_ZOOM : 'fit')
+      return
+    }
+
+    zoomTo(next)
+  }
+
+  const getStagePoint = (event: { clientX: number; clientY: number }): Point => {
+    const rect = stageRef.current?.getBoundingClientRect()
+    return rect ? { x: event.clientX - rect.left, y: event.clientY - rect.top } : { x: 0, y: 0 }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) {
+      return
+    }
+
+    const isHandle = (event.target as HTMLElement).closest('.comparison-handle') !== null
+    const kind: DragKind = isHandle && mode === 'split' ? 'split' : 'pan'
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { kind, start: getStagePoint(event), pan }
+
+    if (kind === 'split') {
+      setSplit(clamp((getStagePoint(event).x / stageSize.x) * 100, 0, 100))
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) {
+      return
+    }
+
+    const point = getStagePoint(event)
+    if (drag.kind === 'split') {
+      setSplit(clamp((point.x / stageSize.x) * 100, 0, 100))
+      return
+    }
+
+    setPan(clampPan({ x: drag.pan.x + point.x - drag.start.x, y: drag.pan.y + point.y - drag.start.y }, scale))
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  const handleWheel = (event: WheelEvent) => {
+    event.preventDefault()
+    zoomTo(scale * Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED), getStagePoint(event))
+  }
+
+  const handleKey = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose()
+    } else if (event.key === 'ArrowLeft' && event.shiftKey) {
+      setSplit((current) => clamp(current - SPLIT_KEY_STEP, 0, 100))
+    } else if (event.key === 'ArrowRight' && event.shiftKey) {
+      setSplit((current) => clamp(current + SPLIT_KEY_STEP, 0, 100))
+    } else if (event.key === 'ArrowLeft' || event.key === 'ArrowUp') {
+      onPrevious?.()
+    } else if (event.key === 'ArrowRight' || event.key === 'ArrowDown') {
+      onNext?.()
+    } else if (event.key === '+' || event.key === '=') {
+      stepZoom(1)
+    } else if (event.key === '-') {
+      stepZoom(-1)
+    } else if (event.key === '0') {
+      zoomTo('fit')
+    } else if (event.key === '1') {
+      zoomTo(1)
+    } else if (event.key.toLowerCase() === 'd') {
+      setMode((current) => (current === 'split' ? 'difference' : 'split'))
+    } else {
+      return
+    }
+
+    event.preventDefault()
+  }
+
+  const handleWheelRef = useRef(handleWheel)
+  const handleKeyRef = useRef(handleKey)
+
+  useEffect(() => {
+    handleWheelRef.current = handleWheel
+    handleKeyRef.current = handleKey
+  })
+
+  useEffect(() => {
+    const stage = stageRef.current
+    if (!stage) {
+      return
+    }
+
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({ x: entry.contentRect.width, y: entry.contentRect.height })
+    })
+    const onWheel = (event: WheelEvent) => handleWheelRef.current(event)
+    const onKeyDown = (event: KeyboardEvent) => handleKeyRef.current(event)
+
+    observer.observe(stage)
+    stage.addEventListener('wheel', onWheel, { passive: false })
+    window.addEventListener('keydown', onKeyDown)
+
+    return () => {
+      observer.disconnect()
+      stage.removeEventListener('wheel', onWheel)
+      window.removeEventListener('keydown', onKeyDown)
+    }
+  }, [])
+
+  const frameStyle: React.CSSProperties = {
+    width: contentWidth,
+    height: contentHeight,
+    transform: `translate(${(stageSize.x - contentWidth) / 2 + pan.x}px, ${(stageSize.y - contentHeight) / 2 + pan.y}px)`,
+  }
+  const imageClassName = `comparison-image ${scale > 1 ? 'pixelated' : ''}`
+  const markFailed = (url: string) => setFailedUrls((current) => [...current, url])
+  const beforeFailed = failedUrls.includes(before.url)
+
+  return (
+    <motion.div
+      className="comparison-backdrop"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <div className="comparison-viewer" role="dialog" aria-modal="true" aria-label={`Compare ${title}`}>
+        <div className="comparison-toolbar">
+          <div className="comparison-heading">
+            <strong className="comparison-title">{title}</strong>
+            <span className="comparison-position">{position}</span>
+          </div>
+
+          <div className="comparison-controls">
+            <div className="segmented" role="group" aria-label="Comparison mode">
+              <button
+                type="button"
+                className={mode === 'split' ? 'active' : ''}
+                onClick={() => setMode('split')}
+              >
+                Split
+              </button>
+              <button
+                type="button"
+                className={mode === 'difference' ? 'active' : ''}
+                onClick={() => setMode('difference')}
+              >
+                Difference
+              </button>
+            </div>
+
+            <button className="btn-secondary btn-compact" type="button" onClick={() => stepZoom(-1)} aria-label="Zoom out">
+              −
+            </button>
+            <button className="btn-secondary btn-compact comparison-zoom" type="button" onClick={() => zoomTo(zoom === 'fit' ? 1 : 'fit')}>
+              {zoom === 'fit' ? `Fit (${Math.round(scale * 100)}%)` : `${Math.round(scale * 100)}%`}
+            </button>
+            <button className="btn-secondary btn-compact" type="button" onClick={() => stepZoom(1)} aria-label="Zoom in">
+              +
+            </button>
+
+            <button className="btn-secondary btn-compact" type="button" onClick={onPrevious} disabled={!onPrevious}>
+              Previous
+            </button>
+            <button className="btn-secondary btn-compact" type="button" onClick={onNext} disabled={!onNext}>
+              Next
+            </button>
+            <button className="btn-primary btn-compact" type="button" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div
+          ref={stageRef}
+          className={`comparison-stage ${mode} ${scale > fitScale + 0.001 ? 'pannable' : ''}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={(event) => zoomTo(zoom === 'fit' ? Math.max(1, fitScale * 2) : 'fit', getStagePoint(event))}
+        >
+          <div className="comparison-layers">
+            <div className="comparison-layer">
+              <div className="comparison-frame" style={frameStyle}>
+                {!beforeFailed && (
+                  <img
+                    className={imageClassName}
+                    src={before.url}
+                    alt={`${title} before conversion`}
+                    style={getBeforeStyle(fit, anchor)}
+                    draggable={false}
+                    onError={() => markFailed(before.url)}
+                  />
+                )}
+              </div>
+            </div>
+            <div
+              className="comparison-layer after"
+              style={mode === 'split' ? { clipPath: `inset(0 0 0 ${split}%)` } : undefined}
+            >
+              <div className="comparison-frame" style={frameStyle}>
+                <img
+                  className={imageClassName}
+                  src={after.url}
+                  alt={`${title} after conversion`}
+                  draggable={false}
+                  onError={() => markFailed(after.url)}
+                />
+              </div>
+            </div>
+          </div>
+
+          {mode === 'split' && (
+            <div className="comparison-handle" style={{ left: `${split}%` }} aria-hidden="true">
+              <span className="comparison-handle-grip" />
+            </div>
+          )}
+
+          {beforeFailed && (
+            <p className="comparison-note">This browser cannot display the original file, so only the output is shown.</p>
+          )}
+          {mode === 'difference' && !beforeFailed && (
+            <p className="comparison-note">Bright areas changed the most. Differences are brightened to make them visible.</p>
+          )}
+        </div>
+
+        <div className="comparison-footer">
+          {[before, after].map((side) => (
+            <div key={side.label} className="comparison-side">
+              <span className="comparison-side-label">{side.label}</span>
+              {side.details.map((detail) => (
+                <span key={detail} className="queue-meta-item">
+                  {detail}
+                </span>
+              ))}
+            </div>
+          ))}
+          <span className="comparison-hint">
+            ←/→ switch images • Shift+←/→ move the split • +/− zoom • 0 fit • D difference • Esc close
+          </span>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
+
+export default ComparisonViewer
@@ -0,0 +1,102 @@
+import { useEffect, useRef } from 'react'
+import { resizeImage } from './conversion'
+import type { ResampleFilter } from './resampling'
+
+const PATTERN_WIDTH = 960
+const PATTERN_HEIGHT = 600
+const PREVIEW_WIDTH = 240
+const PREVIEW_HEIGHT = 150
+
+interface ResamplingPreviewProps {
+  filter: ResampleFilter
+  filterLabel: string
+  sharpen: number
+}
+
+/**
+ * A zone plate: rings that get finer towards the edges until they hit the pixel grid. Shrinking it
+ * shows aliasing as false rings, which is exactly what a good filter avoids.
+ */
+const createTestPattern = () => {
+  const canvas = document.createElement('canvas')
+  canvas.width = PATTERN_WIDTH
+  canvas.height = PATTERN_HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    return null
+  }
+
+  const pixels = ctx.createImageData(PATTERN_WIDTH, PATTERN_HEIGHT)
+  const centerX = PATTERN_WIDTH / 2
+  const centerY = PATTERN_HEIGHT / 2
+  const frequency = Math.PI / (2 * Math.hypot(centerX, centerY))
+
+  for (let y = 0; y < PATTERN_HEIGHT; y += 1) {
+    for (let x = 0; x < PATTERN_WIDTH; x += 1) {
+      const distance = (x - centerX) ** 2 + (y - centerY) ** 2
+      const value = 127.5 + 127.5 * Math.cos(distance * frequency)
+      const offset = (y * PATTERN_WIDTH + x) * 4
+      pixels.data[offset] = value
+      pixels.data[offset + 1] = value
+      pixels.data[offset + 2] = value
+      pixels.data[offset + 3] = 255
+    }
+  }
+
+  ctx.putImageData(pixels, 0, 0)
+  return canvas
+}
+
+const drawResized = (
+  target: HTMLCanvasElement | null,
+  pattern: HTMLCanvasElement,
+  filter: ResampleFilter,
+  sharpen: number
+) => {
+  const ctx = target?.getContext('2d')
+  if (!ctx) {
+    return
+  }
+
+  const region = { x: 0, y: 0, width: PATTERN_WIDTH, height: PATTERN_HEIGHT }
+  ctx.clearRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT)
+  ctx.drawImage(resizeImage(pattern, region, PREVIEW_WIDTH, PREVIEW_HEIGHT, filter, sharpen), 0, 0)
+}
+
+const ResamplingPreview = ({ filter, filterLabel, sharpen }: ResamplingPreviewProps) => {
+  const patternRef = useRef<HTMLCanvasElement | null>(null)
+  const plainRef = useRef<HTMLCanvasElement>(null)
+  const filteredRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    patternRef.current ??= createTestPattern()
+    if (patternRef.current) {
+      drawResized(plainRef.current, patternRef.current, 'bilinear', 0)
+    }
+  }, [])
+
+  useEffect(() => {
+    patternRef.current ??= createTestPattern()
+    if (patternRef.current) {
+      drawResized(filteredRef.current, patternRef.current, filter, sharpen)
+    }
+  }, [filter, sharpen])
+
+  return (
+    <div className="resampling-preview">
+      <figure>
+        <canvas ref={plainRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} />
+        <figcaption>Plain canvas scaling</figcaption>
+      </figure>
+      <figure>
+        <canvas ref={filteredRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} />
+        <figcaption>
+          {filterLabel}
+          {sharpen > 0 ? `, sharpened ${sharpen}%` : ''}
+        </figcaption>
+      </figure>
+    </div>
+  )
+}
+
+export default ResamplingPreview
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react'
+import { drawWatermark, type Watermark } from './conversion'
+import { readWatermarkImage } from './watermarkStore'
+
+const PREVIEW_WIDTH = 320
+const DEFAULT_ASPECT = 10 / 16
+
+interface WatermarkPreviewProps {
+  watermark: Watermark
+  outputWidth: number | null
+  outputHeight: number | null
+}
+
+/** Stands in for a photo so light and dark watermarks both stay visible. */
+const drawSampleBackground = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const sky = ctx.createLinearGradient(0, 0, 0, height)
+  sky.addColorStop(0, '#7aa7d9')
+  sky.addColorStop(0.6, '#d8c6a8')
+  ctx.fillStyle = sky
+  ctx.fillRect(0, 0, width, height)
+
+  ctx.fillStyle = '#3f5a3a'
+  ctx.beginPath()
+  ctx.moveTo(0, height * 0.75)
+  ctx.quadraticCurveTo(width * 0.35, height * 0.5, width * 0.6, height * 0.7)
+  ctx.quadraticCurveTo(width * 0.8, height * 0.82, width, height * 0.62)
+  ctx.lineTo(width, height)
+  ctx.lineTo(0, height)
+  ctx.closePath()
+  ctx.fill()
+}
+
+const WatermarkPreview = ({ watermark, outputWidth, outputHeight }: WatermarkPreviewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [image, setImage] = useState<{ id: string; bitmap: ImageBitmap } | null>(null)
+  const imageId = watermark.kind === 'image' ? watermark.imageId : null
+
+  const aspect = outputWidth && outputHeight ? outputHeight / outputWidth : DEFAULT_ASPECT
+  const width = PREVIEW_WIDTH
+  const height = Math.max(1, Math.round(PREVIEW_WIDTH * aspect))
+
+  useEffect(() => {
+    if (!imageId) {
+      return
+    }
+
+    let cancelled = false
+    let bitmap: ImageBitmap | null = null
+
+    void readWatermarkImage(imageId)
+      .then((blob) => (blob ? createImageBitmap(blob) : null))
+      .then((decoded) => {
+        bitmap = decoded
+        if (decoded && !cancelled) {
+          setImage({ id: imageId, bitmap: decoded })
+        }
+      })
+      .catch(() => {
+        // The preview simply shows no watermark; conversion reports the missing image properly.
+      })
+
+    return () => {
+      cancelled = true
+      bitmap?.close()
+    }
+  }, [imageId])
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) {
+      return
+    }
+
+    ctx.clearRect(0, 0, width, height)
+    drawSampleBackground(ctx, width, height)
+    drawWatermark(ctx, width, height, watermark, image && image.id === imageId ? image.bitmap : null)
+  }, [height, image, imageId, watermark, width])
+
+  const isMissingImage = watermark.kind === 'image' && (!imageId || image?.id !== imageId)
+
+  return (
+    <div className="watermark-preview">
+      <canvas ref={canvasRef} width={width} height={height} aria-label="Watermark preview" />
+      {isMissingImage && <span className="watermark-preview-hint">Choose an image to preview it here.</span>}
+    </div>
+  )
+}
+
+export default WatermarkPreview
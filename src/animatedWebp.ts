@@ -0,0 +1,93 @@
+import { concatBytes, readAscii, webpChunk } from './metadata'
+
+export interface EncodedFrame {
+  /** A complete still WebP file covering the whole canvas. */
+  data: Uint8Array
+  /** Display time in milliseconds. */
+  duration: number
+}
+
+const textEncoder = new TextEncoder()
+
+const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff]
+
+const readUint32 = (bytes: Uint8Array, offset: number) => {
+  return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0, true)
+}
+
+/** Returns `image/gif` or `image/webp` when the bytes are an animation, otherwise null. Stills are not worth a frame decoder. */
+export const getAnimatedType = (bytes: Uint8Array) => {
+  if (readAscii(bytes, 0, 4) === 'GIF8') {
+    return 'image/gif'
+  }
+
+  const isExtendedWebP = readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 8) === 'WEBPVP8X'
+  return isExtendedWebP && (bytes[20] & 0x02) !== 0 ? 'image/webp' : null
+}
+
+/** Picks the ALPH, VP8 and VP8L chunks out of a still WebP, which is all an ANMF frame may hold. */
+const getFrameChunks = (bytes: Uint8Array) => {
+  const chunks: Uint8Array[] = []
+  let hasAlpha = false
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4)
+    const length = readUint32(bytes, offset + 4)
+    const end = Math.min(bytes.length, offset + 8 + length + (length % 2))
+
+    if (type === 'VP8L') {
+      hasAlpha = hasAlpha || ((bytes[offset + 12] >> 4) & 0x01) === 1
+      chunks.push(bytes.subarray(offset, end))
+    } else if (type === 'VP8 ' || type === 'ALPH') {
+      hasAlpha = hasAlpha || type === 'ALPH'
+      chunks.push(bytes.subarray(offset, end))
+    }
+
+    offset = end
+  }
+
+  return { chunks, hasAlpha }
+}
+
+/**
+ * Muxes separately encoded full-canvas stills into one animated WebP. Each frame replaces the last
+ * without blending, so the output matches what the source showed frame by frame.
+ * A loop count of 0 repeats forever.
+ */
+export const muxAnimatedWebP = (frames: EncodedFrame[], width: number, height: number, loopCount: number) => {
+  let hasAlpha = false
+
+  const frameChunks = frames.map((frame) => {
+    const { chunks, hasAlpha: frameHasAlpha } = getFrameChunks(frame.data)
+    hasAlpha = hasAlpha || frameHasAlpha
+
+    const header = new Uint8Array(16)
+    header.set(uint24(width - 1), 6)
+    header.set(uint24(height - 1), 9)
+    header.set(uint24(Math.min(0xffffff, Math.max(0, Math.round(frame.duration)))), 12)
+    header[15] = 0x02
+
+    return webpChunk('ANMF', concatBytes([header, ...chunks]))
+  })
+
+  const canvas = new Uint8Array(10)
+  canvas[0] = 0x02 | (hasAlpha ? 0x10 : 0)
+  canvas.set(uint24(width - 1), 4)
+  canvas.set(uint24(height - 1), 7)
+
+  const animation = new Uint8Array(6)
+  new DataView(animation.buffer).setUint16(4, Math.min(0xffff, loopCount), true)
+
+  const body = concatBytes([
+    textEncoder.encode('WEBP'),
+    webpChunk('VP8X', canvas),
+    webpChunk('ANIM', animation),
+    ...frameChunks,
+  ])
+  const riff = new Uint8Array(8 + body.length)
+  riff.set(textEncoder.encode('RIFF'))
+  new DataView(riff.buffer).setUint32(4, body.length, true)
+  riff.set(body, 8)
+  return riff
+}
@@ -0,0 +1,105 @@
+import { formatDate } from './fileNames'
+
+export interface PastedSources {
+  files: File[]
+  paths: string[]
+}
+
+/** How a copied image landed on the clipboard: as is, or re-encoded because the clipboard refused its format. */
+export type CopiedImageFormat = 'original' | 'png'
+
+const GENERIC_CLIPBOARD_NAME = /^image\.\w+$/i
+
+const getImageExtension = (type: string) => {
+  const subtype = type.split('/')[1]?.replace(/\+.*$/, '') ?? ''
+  return subtype === 'jpeg' ? 'jpg' : subtype || 'png'
+}
+
+/** Screenshots arrive as "image.png", so they get a timestamped name that will not collide with the next paste. */
+const nameClipboardImage = (blob: Blob, index: number, date: Date) => {
+  const time = [date.getHours(), date.getMinutes(), date.getSeconds()].map((part) => String(part).padStart(2, '0'))
+  const name = `pasted-${formatDate(date)}-${time.join('')}${index > 0 ? `-${index + 1}` : ''}.${getImageExtension(blob.type)}`
+  return new File([blob], name, { type: blob.type, lastModified: date.getTime() })
+}
+
+/** File managers put copied files on the clipboard as file:// URLs, which the desktop app can open by path. */
+const getFilePaths = (uriList: string) => {
+  return uriList
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('file://'))
+    .map((uri) => {
+      const path = decodeURIComponent(new URL(uri).pathname)
+      return /^\/[A-Za-z]:\//.test(path) ? path.slice(1) : path
+    })
+}
+
+export const collectPastedSources = (data: DataTransfer): PastedSources => {
+  const date = new Date()
+  const files = Array.from(data.files).map((file, index) =>
+    GENERIC_CLIPBOARD_NAME.test(file.name) ? nameClipboardImage(file, index, date) : file
+  )
+
+  return { files, paths: files.length === 0 ? getFilePaths(data.getData('text/uri-list')) : [] }
+}
+
+/** Reads images through the async clipboard API, for the Paste button. Keyboard pastes go through `collectPastedSources`. */
+export const readClipboardImages = async () => {
+  if (!navigator.clipboard?.read) {
+    throw new Error('This browser cannot read images from the clipboard. Press Ctrl+V (⌘V on a Mac) to paste instead.')
+  }
+
+  let items: ClipboardItems
+  try {
+    items = await navigator.clipboard.read()
+  } catch {
+    throw new Error('Clipboard access was blocked. Press Ctrl+V (⌘V on a Mac) to paste instead.')
+  }
+
+  const date = new Date()
+  const blobs = await Promise.all(
+    items.flatMap((item) => {
+      const type = item.types.find((candidate) => candidate.startsWith('image/'))
+      return type ? [item.getType(type)] : []
+    })
+  )
+
+  return blobs.map((blob, index) => nameClipboardImage(blob, index, date))
+}
+
+const toPngBlob = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob)
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+  if (!png) {
+    throw new Error('We could not prepare this image for the clipboard.')
+  }
+  return png
+}
+
+/**
+ * Puts an image of the given MIME type on the clipboard. Most clipboards only take PNG, so WebP and AVIF
+ * outputs are copied as a PNG of the same pixels instead. Throws when the clipboard refuses images altogether.
+ *
+ * The image arrives as a promise and goes straight into the `ClipboardItem`: WebKit only allows the write
+ * while the click that asked for it is still being handled, so nothing may be awaited before it.
+ */
+export const copyImageToClipboard = async (blob: Promise<Blob>, type: string): Promise<CopiedImageFormat> => {
+  if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) {
+    void blob.catch(() => undefined)
+    throw new Error('This browser cannot copy images to the clipboard.')
+  }
+
+  if (ClipboardItem.supports?.(type)) {
+    await navigator.clipboard.write([new ClipboardItem({ [type]: blob })])
+    return 'original'
+  }
+
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob.then(toPngBlob) })])
+  return 'png'
+}
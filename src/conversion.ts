@@ -0,0 +1,871 @@
+import { getAnimatedType, muxAnimatedWebP, type EncodedFrame } from './animatedWebp'
+import {
+  canEmbedMetadata,
+  embedMetadata,
+  fitMetadataToFormat,
+  readMetadata,
+  selectMetadata,
+  type MetadataPolicy,
+  type SourceMetadata,
+} from './metadata'
+import { measureQuality, type QualityFloorAction, type QualityScore } from './qualityMetrics'
+import { resamplePixels, sharpenPixels, type ResampleFilter } from './resampling'
+
+export type OutputFormat = 'webp' | 'avif' | 'jpeg' | 'png'
+export type CompressionMode = 'lossy' | 'lossless' | 'near-lossless'
+export type FitMode = 'scale-down' | 'cover' | 'contain' | 'exact'
+export type CropAnchor =
+  | 'center'
+  | 'top'
+  | 'bottom'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+export type AnimationMode = 'keep' | 'first-frame'
+export type WatermarkKind = 'image' | 'text'
+
+export interface OutputFormatInfo {
+  label: string
+  mimeType: string
+  extension: string
+  supportsQuality: boolean
+  encoder: 'canvas' | 'libwebp'
+}
+
+export interface Watermark {
+  kind: WatermarkKind
+  text: string
+  color: string
+  /** File name of the image in app storage, see `src/watermarkStore.ts`. */
+  imageId: string | null
+  anchor: CropAnchor
+  /** Gap to the nearest edges, as a percentage of the output width. */
+  margin: number
+  /** Watermark width as a percentage of the output width. */
+  scale: number
+  opacity: number
+}
+
+export interface Preset {
+  id: string
+  name: string
+  format: OutputFormat
+  maxWidth: number | null
+  maxHeight: number | null
+  fit: FitMode
+  anchor: CropAnchor
+  padColor: string
+  allowUpscale: boolean
+  resampling: ResampleFilter
+  /** Unsharp mask strength applied after resizing, 0 to 100. */
+  sharpen: number
+  quality: number
+  compression: CompressionMode
+  nearLossless: number
+  alphaQuality: number
+  effort: number
+  reducePercent: number
+  maxFileSizeKb: number | null
+  allowBudgetDownscale: boolean
+  metadata: MetadataPolicy
+  responsiveWidths: number[]
+  responsiveSizes: string
+  fileNameTemplate: string
+  minSsim: number | null
+  minSsimAction: QualityFloorAction
+  animation: AnimationMode
+  watermark: Watermark | null
+}
+
+export interface SizeTargetResult {
+  maxBytes: number
+  quality: number
+  met: boolean
+  downscaled: boolean
+}
+
+export interface AnimationSummary {
+  frameCount: number
+  /** False when only the first frame was written, because of the preset or the output format. */
+  kept: boolean
+}
+
+export interface ConversionOutput {
+  blob: Blob
+  originalWidth: number
+  originalHeight: number
+  outputWidth: number
+  outputHeight: number
+  sizeTarget?: SizeTargetResult
+  qualityScore?: QualityScore
+  animation?: AnimationSummary
+  metadataKept: string[]
+  /** Metadata the policy kept but the output format had no room for. */
+  metadataDropped: string[]
+}
+
+export interface DecodedAnimation {
+  /** Fully composited frames with their durations in milliseconds. Empty unless the preset keeps animation. */
+  frames: Array<{ image: VideoFrame; duration: number }>
+  frameCount: number
+  loopCount: number
+}
+
+export interface DecodedSource {
+  image: CanvasImageSource
+  width: number
+  height: number
+  orientation: number
+  keepsColorProfile: boolean
+  metadata: SourceMetadata
+  animation?: DecodedAnimation
+  release: () => void
+}
+
+export interface RenderLayout {
+  canvasWidth: number
+  canvasHeight: number
+  sourceX: number
+  sourceY: number
+  sourceWidth: number
+  sourceHeight: number
+  destX: number
+  destY: number
+  destWidth: number
+  destHeight: number
+}
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+interface RenderSurface {
+  canvas: OffscreenCanvas | HTMLCanvasElement
+  ctx: RenderContext
+  width: number
+  height: number
+  resize: (width: number, height: number) => void
+  toBlob: (type: string, quality?: number) => Promise<Blob | null>
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', supportsQuality: true, encoder: 'libwebp' },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', supportsQuality: true, encoder: 'canvas' },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', supportsQuality: true, encoder: 'canvas' },
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', supportsQuality: false, encoder: 'canvas' },
+}
+
+export const TARGET_SIZE_MIN_QUALITY = 10
+const TARGET_SIZE_DOWNSCALE_STEP = 0.85
+const TARGET_SIZE_MIN_DIMENSION = 64
+const METADATA_CONTAINER_OVERHEAD = 64
+
+export const isQualityAdjustable = (preset: Preset) => {
+  return OUTPUT_FORMATS[preset.format].supportsQuality && (preset.format !== 'webp' || preset.compression === 'lossy')
+}
+
+export const getMaxBytes = (preset: Preset) => {
+  return preset.maxFileSizeKb && isQualityAdjustable(preset) ? preset.maxFileSizeKb * 1024 : null
+}
+
+export const keepsAnimation = (preset: Preset) => preset.format === 'webp' && preset.animation === 'keep'
+
+export const getUnsupportedFormatMessage = (format: OutputFormat) => {
+  return `This browser cannot encode ${OUTPUT_FORMATS[format].label} files. Choose a different output format for this preset.`
+}
+
+const createSurface = (): RenderSurface => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(1, 1)
+    const ctx = canvas.getContext('2d')
+
+    if (ctx) {
+      return {
+        canvas,
+        ctx,
+        get width() {
+          return canvas.width
+        },
+        get height() {
+          return canvas.height
+        },
+        resize: (width, height) => {
+          canvas.width = width
+          canvas.height = height
+        },
+        toBlob: (type, quality) => canvas.convertToBlob({ type, quality }).catch(() => null),
+      }
+    }
+  }
+
+  if (typeof document === 'undefined') {
+    throw new Error('Your browser could not start the image converter.')
+  }
+
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+
+  if (!ctx) {
+    throw new Error('Your browser could not start the image converter.')
+  }
+
+  return {
+    canvas,
+    ctx,
+    get width() {
+      return canvas.width
+    },
+    get height() {
+      return canvas.height
+    },
+    resize: (width, height) => {
+      canvas.width = width
+      canvas.height = height
+    },
+    toBlob: (type, quality) => new Promise((resolve) => canvas.toBlob(resolve, type, quality)),
+  }
+}
+
+const isRotatedOrientation = (orientation: number) => orientation >= 5
+
+const loadImageElement = (file: File) => {
+  return new Promise<{ image: HTMLImageElement; release: () => void }>((resolve, reject) => {
+    const image = new Image()
+    const sourceUrl = URL.createObjectURL(file)
+    const release = () => URL.revokeObjectURL(sourceUrl)
+
+    image.onload = () => resolve({ image, release })
+    image.onerror = () => {
+      release()
+      reject(new Error('We could not read this image.'))
+    }
+
+    image.src = sourceUrl
+  })
+}
+
+/**
+ * Browsers disagree on whether decoding applies EXIF orientation, so we decode with it off and apply it
+ * ourselves. A decoder that rotates anyway still gives itself away on rotated, non-square images.
+ */
+const getPendingOrientation = (
+  metadata: SourceMetadata,
+  decodedWidth: number,
+  decodedHeight: number,
+  appliedByDecoder: boolean
+) => {
+  if (appliedByDecoder) {
+    return 1
+  }
+
+  const swappedByDecoder =
+    isRotatedOrientation(metadata.orientation) &&
+    metadata.rawWidth !== metadata.rawHeight &&
+    decodedWidth === metadata.rawHeight &&
+    decodedHeight === metadata.rawWidth
+  return swappedByDecoder ? 1 : metadata.orientation
+}
+
+/** `<img>` decoding cannot opt out of EXIF orientation; browsers that know the CSS property apply it by default. */
+const imageElementAppliesOrientation = () => typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image')
+
+/**
+ * Reads every frame of an animated GIF or WebP through WebCodecs. Frames are only decoded when they will be
+ * encoded; otherwise just the count is read. Returns null for stills and where `ImageDecoder` is missing.
+ */
+const decodeAnimation = async (bytes: Uint8Array, decodeFrames: boolean): Promise<DecodedAnimation | null> => {
+  const type = getAnimatedType(bytes)
+  if (!type || typeof ImageDecoder === 'undefined' || !(await ImageDecoder.isTypeSupported(type))) {
+    return null
+  }
+
+  const decoder = new ImageDecoder({ data: bytes, type })
+  const frames: DecodedAnimation['frames'] = []
+
+  try {
+    await decoder.completed
+    const track = decoder.tracks.selectedTrack
+    if (!track?.animated || track.frameCount < 2) {
+      return null
+    }
+
+    for (let frameIndex = 0; decodeFrames && frameIndex < track.frameCount; frameIndex += 1) {
+      const { image } = await decoder.decode({ frameIndex })
+      frames.push({ image, duration: Math.round((image.duration ?? 0) / 1000) })
+    }
+
+    // WebCodecs counts repeats after the first play, while a WebP loop count includes it; 0 means forever.
+    const loopCount = Number.isFinite(track.repetitionCount) ? track.repetitionCount + 1 : 0
+    return { frames, frameCount: track.frameCount, loopCount }
+  } catch {
+    frames.forEach(({ image }) => image.close())
+    return null
+  } finally {
+    decoder.close()
+  }
+}
+
+export const decodeSource = async (file: File, preset: Preset): Promise<DecodedSource> => {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const metadata = await readMetadata(bytes)
+  const keepsColorProfile = preset.metadata === 'all' && metadata.icc !== null
+  const animation = (await decodeAnimation(bytes, keepsAnimation(preset))) ?? undefined
+
+  const withOrientation = (
+    image: CanvasImageSource,
+    width: number,
+    height: number,
+    release: () => void,
+    keepsProfile: boolean,
+    appliedByDecoder: boolean
+  ) => {
+    const orientation = getPendingOrientation(metadata, width, height, appliedByDecoder)
+    const swapped = isRotatedOrientation(orientation)
+
+    return {
+      image,
+      width: swapped ? height : width,
+      height: swapped ? width : height,
+      orientation,
+      keepsColorProfile: keepsProfile,
+      metadata,
+      animation,
+      release: () => {
+        release()
+        animation?.frames.forEach(({ image: frame }) => frame.close())
+      },
+    }
+  }
+
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, {
+        imageOrientation: 'none',
+        colorSpaceConversion: keepsColorProfile ? 'none' : 'default',
+      })
+      return withOrientation(bitmap, bitmap.width, bitmap.height, () => bitmap.close(), keepsColorProfile, false)
+    } catch {
+      // Some formats (SVG in particular) only decode through an <img> element.
+    }
+  }
+
+  if (typeof Image === 'undefined') {
+    throw new Error('We could not read this image.')
+  }
+
+  const { image, release } = await loadImageElement(file)
+  return withOrientation(image, image.naturalWidth, image.naturalHeight, release, false, imageElementAppliesOrientation())
+}
+
+const ORIENTATION_TRANSFORMS: Record<number, (width: number, height: number) => DOMMatrix2DInit> = {
+  2: (width) => ({ a: -1, b: 0, c: 0, d: 1, e: width, f: 0 }),
+  3: (width, height) => ({ a: -1, b: 0, c: 0, d: -1, e: width, f: height }),
+  4: (_, height) => ({ a: 1, b: 0, c: 0, d: -1, e: 0, f: height }),
+  5: () => ({ a: 0, b: 1, c: 1, d: 0, e: 0, f: 0 }),
+  6: (width) => ({ a: 0, b: 1, c: -1, d: 0, e: width, f: 0 }),
+  7: (width, height) => ({ a: 0, b: -1, c: -1, d: 0, e: width, f: height }),
+  8: (_, height) => ({ a: 0, b: -1, c: 1, d: 0, e: 0, f: height }),
+}
+
+const getWebPEncodeOptions = (preset: Preset) => ({
+  quality: preset.quality,
+  lossless: preset.compression === 'lossy' ? 0 : 1,
+  near_lossless: preset.compression === 'near-lossless' ? preset.nearLossless : 100,
+  alpha_quality: preset.alphaQuality,
+  method: preset.effort,
+  exact: preset.compression === 'lossless' ? 1 : 0,
+})
+
+const encodeSurface = async (surface: RenderSurface, preset: Preset) => {
+  const format = OUTPUT_FORMATS[preset.format]
+
+  if (format.encoder === 'libwebp') {
+    const { default: encodeWebP } = await import('@jsquash/webp/encode')
+    const imageData = surface.ctx.getImageData(0, 0, surface.width, surface.height)
+    const buffer = await encodeWebP(imageData, getWebPEncodeOptions(preset))
+    return new Blob([buffer], { type: format.mimeType })
+  }
+
+  const blob = await surface.toBlob(format.mimeType, format.supportsQuality ? preset.quality / 100 : undefined)
+
+  if (!blob) {
+    throw new Error(`We could not create a ${format.label} file for this image.`)
+  }
+
+  if (blob.type !== format.mimeType) {
+    throw new Error(getUnsupportedFormatMessage(preset.format))
+  }
+
+  return blob
+}
+
+const encodeWithinBudget = async (encodeAt: (quality: number) => Promise<Blob>, preset: Preset, maxBytes: number) => {
+  const firstAttempt = await encodeAt(preset.quality)
+  if (firstAttempt.size <= maxBytes) {
+    return { blob: firstAttempt, quality: preset.quality, met: true }
+  }
+
+  let low = TARGET_SIZE_MIN_QUALITY
+  let high = preset.quality - 1
+  let best: { blob: Blob; quality: number } | null = null
+
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2)
+    const blob = await encodeAt(quality)
+
+    if (blob.size <= maxBytes) {
+      best = { blob, quality }
+      low = quality + 1
+    } else {
+      high = quality - 1
+    }
+  }
+
+  if (best) {
+    return { ...best, met: true }
+  }
+
+  const quality = Math.min(TARGET_SIZE_MIN_QUALITY, preset.quality)
+  return { blob: await encodeAt(quality), quality, met: false }
+}
+
+const ANCHOR_POSITIONS: Record<CropAnchor, [number, number]> = {
+  center: [0.5, 0.5],
+  top: [0.5, 0],
+  bottom: [0.5, 1],
+  left: [0, 0.5],
+  right: [1, 0.5],
+  'top-left': [0, 0],
+  'top-right': [1, 0],
+  'bottom-left': [0, 1],
+  'bottom-right': [1, 1],
+}
+
+export const getEffectiveFit = (preset: Preset): FitMode => {
+  return preset.maxWidth && preset.maxHeight ? preset.fit : 'scale-down'
+}
+
+/**
+ * Works out which part of the (upright) source is drawn where on the output canvas.
+ * Mirrored by `render_layout` in `src-tauri/src/convert.rs`.
+ */
+export const getRenderLayout = (sourceWidth: number, sourceHeight: number, preset: Preset): RenderLayout => {
+  const reduceRatio = preset.reducePercent > 0 ? (100 - preset.reducePercent) / 100 : 1
+  const width = Math.max(1, sourceWidth * reduceRatio)
+  const height = Math.max(1, sourceHeight * reduceRatio)
+  const [anchorX, anchorY] = ANCHOR_POSITIONS[preset.anchor]
+  const fullSource = { sourceX: 0, sourceY: 0, sourceWidth, sourceHeight }
+  const fit = getEffectiveFit(preset)
+  const targetWidth = preset.maxWidth ?? 0
+  const targetHeight = preset.maxHeight ?? 0
+
+  if (fit === 'exact') {
+    return {
+      ...fullSource,
+      canvasWidth: targetWidth,
+      canvasHeight: targetHeight,
+      destX: 0,
+      destY: 0,
+      destWidth: targetWidth,
+      destHeight: targetHeight,
+    }
+  }
+
+  if (fit === 'cover') {
+    const scale = Math.max(targetWidth / width, targetHeight / height)
+    const shrink = scale > 1 && !preset.allowUpscale ? 1 / scale : 1
+    const canvasWidth = Math.max(1, Math.round(targetWidth * shrink))
+    const canvasHeight = Math.max(1, Math.round(targetHeight * shrink))
+    const cropWidth = Math.min(sourceWidth, targetWidth / scale / reduceRatio)
+    const cropHeight = Math.min(sourceHeight, targetHeight / scale / reduceRatio)
+
+    return {
+      canvasWidth,
+      canvasHeight,
+      sourceX: (sourceWidth - cropWidth) * anchorX,
+      sourceY: (sourceHeight - cropHeight) * anchorY,
+      sourceWidth: cropWidth,
+      sourceHeight: cropHeight,
+      destX: 0,
+      destY: 0,
+      destWidth: canvasWidth,
+      destHeight: canvasHeight,
+    }
+  }
+
+  if (fit === 'contain') {
+    const scale = Math.min(targetWidth / width, targetHeight / height, preset.allowUpscale ? Infinity : 1)
+    const destWidth = Math.max(1, Math.round(width * scale))
+    const destHeight = Math.max(1, Math.round(height * scale))
+
+    return {
+      ...fullSource,
+      canvasWidth: targetWidth,
+      canvasHeight: targetHeight,
+      destX: Math.round((targetWidth - destWidth) * anchorX),
+      destY: Math.round((targetHeight - destHeight) * anchorY),
+      destWidth,
+      destHeight,
+    }
+  }
+
+  let ratio = 1
+  if (preset.maxWidth || preset.maxHeight) {
+    ratio = Math.min((preset.maxWidth || Infinity) / width, (preset.maxHeight || Infinity) / height)
+    if (ratio > 1 && !preset.allowUpscale) {
+      ratio = 1
+    }
+  }
+
+  const canvasWidth = Math.max(1, Math.round(width * ratio))
+  const canvasHeight = Math.max(1, Math.round(height * ratio))
+  return {
+    ...fullSource,
+    canvasWidth,
+    canvasHeight,
+    destX: 0,
+    destY: 0,
+    destWidth: canvasWidth,
+    destHeight: canvasHeight,
+  }
+}
+
+const scaleLayout = (layout: RenderLayout, factor: number): RenderLayout => ({
+  ...layout,
+  canvasWidth: Math.max(1, Math.round(layout.canvasWidth * factor)),
+  canvasHeight: Math.max(1, Math.round(layout.canvasHeight * factor)),
+  destX: Math.round(layout.destX * factor),
+  destY: Math.round(layout.destY * factor),
+  destWidth: Math.max(1, Math.round(layout.destWidth * factor)),
+  destHeight: Math.max(1, Math.round(layout.destHeight * factor)),
+})
+
+const renderUpright = (source: DecodedSource): CanvasImageSource => {
+  const transform = ORIENTATION_TRANSFORMS[source.orientation]
+  if (!transform) {
+    return source.image
+  }
+
+  const surface = createSurface()
+  const swapped = isRotatedOrientation(source.orientation)
+  surface.resize(source.width, source.height)
+  surface.ctx.setTransform(transform(source.width, source.height))
+  surface.ctx.drawImage(source.image, 0, 0, swapped ? source.height : source.width, swapped ? source.width : source.height)
+  surface.ctx.resetTransform()
+  return surface.canvas
+}
+
+export interface SourceRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Resizes part of an image to exactly `width` by `height` with the given filter, then sharpens it.
+ * Mirrored by `resample::resize` in `src-tauri/src/resample.rs`.
+ */
+export const resizeImage = (
+  image: CanvasImageSource,
+  region: SourceRegion,
+  width: number,
+  height: number,
+  filter: ResampleFilter,
+  sharpen: number
+) => {
+  const surface = createSurface()
+  const sourceWidth = Math.max(1, Math.round(region.width))
+  const sourceHeight = Math.max(1, Math.round(region.height))
+  const scaling = sourceWidth !== width || sourceHeight !== height
+
+  if (scaling && (filter === 'lanczos3' || filter === 'mitchell')) {
+    surface.resize(sourceWidth, sourceHeight)
+    surface.ctx.drawImage(image, region.x, region.y, region.width, region.height, 0, 0, sourceWidth, sourceHeight)
+    const pixels = surface.ctx.getImageData(0, 0, sourceWidth, sourceHeight).data
+    surface.resize(width, height)
+    surface.ctx.putImageData(
+      new ImageData(resamplePixels(pixels, sourceWidth, sourceHeight, width, height, filter), width, height),
+      0,
+      0
+    )
+  } else {
+    let current = { image, ...region }
+
+    // Halving keeps each bilinear step within its 2x2 footprint, so no source pixel is skipped.
+    while (filter === 'halving' && current.width / 2 >= width && current.height / 2 >= height) {
+      const step = createSurface()
+      step.resize(Math.max(1, Math.round(current.width / 2)), Math.max(1, Math.round(current.height / 2)))
+      step.ctx.drawImage(current.image, current.x, current.y, current.width, current.height, 0, 0, step.width, step.height)
+      current = { image: step.canvas, x: 0, y: 0, width: step.width, height: step.height }
+    }
+
+    surface.resize(width, height)
+    surface.ctx.drawImage(current.image, current.x, current.y, current.width, current.height, 0, 0, width, height)
+  }
+
+  if (sharpen > 0) {
+    const imageData = surface.ctx.getImageData(0, 0, width, height)
+    sharpenPixels(imageData.data, width, height, sharpen / 100)
+    surface.ctx.putImageData(imageData, 0, 0)
+  }
+
+  return surface.canvas
+}
+
+/** Decodes the encoded output and scores it against what was drawn. Returns undefined when it cannot be decoded here. */
+const measureOutput = async (surface: RenderSurface, blob: Blob, keepsColorProfile: boolean) => {
+  if (typeof createImageBitmap !== 'function') {
+    return undefined
+  }
+
+  try {
+    const bitmap = await createImageBitmap(blob, { colorSpaceConversion: keepsColorProfile ? 'none' : 'default' })
+    const decoded = createSurface()
+
+    try {
+      if (bitmap.width !== surface.width || bitmap.height !== surface.height) {
+        return undefined
+      }
+
+      decoded.resize(bitmap.width, bitmap.height)
+      decoded.ctx.drawImage(bitmap, 0, 0)
+    } finally {
+      bitmap.close()
+    }
+
+    return measureQuality(
+      surface.ctx.getImageData(0, 0, surface.width, surface.height).data,
+      decoded.ctx.getImageData(0, 0, decoded.width, decoded.height).data,
+      surface.width,
+      surface.height
+    )
+  } catch {
+    return undefined
+  }
+}
+
+const WATERMARK_FONT = '600 100px system-ui, -apple-system, "Segoe UI", sans-serif'
+
+/**
+ * Places a watermark of the given natural size on the output. Mirrored by `watermark_rect` in
+ * `src-tauri/src/watermark.rs`.
+ */
+export const getWatermarkRect = (
+  width: number,
+  height: number,
+  watermark: Watermark,
+  naturalWidth: number,
+  naturalHeight: number
+) => {
+  const [anchorX, anchorY] = ANCHOR_POSITIONS[watermark.anchor]
+  const margin = Math.round((width * watermark.margin) / 100)
+  const rectWidth = Math.max(1, Math.round((width * watermark.scale) / 100))
+  const rectHeight = Math.max(1, Math.round((rectWidth * naturalHeight) / Math.max(1, naturalWidth)))
+
+  return {
+    x: Math.round(margin + (width - 2 * margin - rectWidth) * anchorX),
+    y: Math.round(margin + (height - 2 * margin - rectHeight) * anchorY),
+    width: rectWidth,
+    height: rectHeight,
+  }
+}
+
+/** Stamps the watermark onto an output that has already been resized. Image watermarks need their decoded image. */
+export const drawWatermark = (
+  ctx: RenderContext,
+  width: number,
+  height: number,
+  watermark: Watermark,
+  image: ImageBitmap | null
+) => {
+  const text = watermark.text.trim()
+  if (watermark.kind === 'image' ? !image : !text) {
+    return
+  }
+
+  ctx.save()
+  ctx.globalAlpha = watermark.opacity / 100
+
+  if (watermark.kind === 'image' && image) {
+    const rect = getWatermarkRect(width, height, watermark, image.width, image.height)
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height)
+  } else {
+    ctx.font = WATERMARK_FONT
+    const metrics = ctx.measureText(text)
+    const ascent = metrics.actualBoundingBoxAscent
+    const rect = getWatermarkRect(width, height, watermark, metrics.width, ascent + metrics.actualBoundingBoxDescent)
+    const scale = rect.width / Math.max(1, metrics.width)
+
+    ctx.fillStyle = watermark.color
+    ctx.translate(rect.x, rect.y + ascent * scale)
+    ctx.scale(scale, scale)
+    ctx.fillText(text, 0, 0)
+  }
+
+  ctx.restore()
+}
+
+const decodeWatermark = async (preset: Preset, image: Blob | undefined) => {
+  if (preset.watermark?.kind !== 'image') {
+    return null
+  }
+
+  if (!image) {
+    throw new Error('The watermark image for this preset is missing. Choose it again in the preset editor.')
+  }
+
+  try {
+    return await createImageBitmap(image)
+  } catch {
+    throw new Error('We could not read the watermark image for this preset.')
+  }
+}
+
+const drawLayout = (
+  surface: RenderSurface,
+  image: CanvasImageSource,
+  layout: RenderLayout,
+  preset: Preset,
+  watermarkImage: ImageBitmap | null
+) => {
+  const padColor = preset.padColor === 'transparent' && preset.format === 'jpeg' ? '#000000' : preset.padColor
+  surface.resize(layout.canvasWidth, layout.canvasHeight)
+
+  if (getEffectiveFit(preset) === 'contain' && padColor !== 'transparent') {
+    surface.ctx.fillStyle = padColor
+    surface.ctx.fillRect(0, 0, layout.canvasWidth, layout.canvasHeight)
+  }
+
+  const resized = resizeImage(
+    image,
+    { x: layout.sourceX, y: layout.sourceY, width: layout.sourceWidth, height: layout.sourceHeight },
+    layout.destWidth,
+    layout.destHeight,
+    preset.resampling,
+    preset.sharpen
+  )
+  surface.ctx.drawImage(resized, layout.destX, layout.destY)
+
+  if (preset.watermark) {
+    drawWatermark(surface.ctx, layout.canvasWidth, layout.canvasHeight, preset.watermark, watermarkImage)
+  }
+}
+
+/** Draws and encodes every frame at the layout's size, then muxes them. Frames are redrawn per pass to keep memory flat. */
+const encodeAnimation = async (
+  surface: RenderSurface,
+  animation: DecodedAnimation,
+  layout: RenderLayout,
+  preset: Preset,
+  watermarkImage: ImageBitmap | null
+) => {
+  const { default: encodeWebP } = await import('@jsquash/webp/encode')
+  const frames: EncodedFrame[] = []
+
+  for (const frame of animation.frames) {
+    drawLayout(surface, frame.image, layout, preset, watermarkImage)
+    const buffer = await encodeWebP(surface.ctx.getImageData(0, 0, surface.width, surface.height), getWebPEncodeOptions(preset))
+    frames.push({ data: new Uint8Array(buffer), duration: frame.duration })
+  }
+
+  const bytes = muxAnimatedWebP(frames, layout.canvasWidth, layout.canvasHeight, animation.loopCount)
+  return new Blob([bytes as BlobPart], { type: OUTPUT_FORMATS.webp.mimeType })
+}
+
+const renderAndEncode = async (
+  source: DecodedSource,
+  preset: Preset,
+  watermark: ImageBitmap | null
+): Promise<ConversionOutput> => {
+  const surface = createSurface()
+  const image = renderUpright(source)
+  const animation = keepsAnimation(preset) && source.animation?.frames.length ? source.animation : null
+  let layout = getRenderLayout(source.width, source.height, preset)
+
+  const draw = (nextLayout: RenderLayout) => drawLayout(surface, image, nextLayout, preset, watermark)
+  const encodeAt = (quality: number) =>
+    animation
+      ? encodeAnimation(surface, animation, layout, { ...preset, quality }, watermark)
+      : encodeSurface(surface, { ...preset, quality })
+
+  draw(layout)
+
+  const fitted = canEmbedMetadata(preset.format)
+    ? fitMetadataToFormat(selectMetadata(source.metadata, preset.metadata, source.keepsColorProfile), preset.format)
+    : null
+  const metadata = fitted?.metadata ?? null
+  const metadataBytes = metadata
+    ? [metadata.exif, metadata.xmp, metadata.icc].reduce((total, part) => total + (part?.length ?? 0), 0)
+    : 0
+  const budget = getMaxBytes(preset)
+  const maxBytes = budget && metadataBytes > 0 ? Math.max(1, budget - metadataBytes - METADATA_CONTAINER_OVERHEAD) : budget
+  let blob: Blob
+  let sizeTarget: SizeTargetResult | undefined
+
+  if (maxBytes) {
+    let attempt = await encodeWithinBudget(encodeAt, preset, maxBytes)
+    let downscaled = false
+
+    while (
+      !attempt.met &&
+      preset.allowBudgetDownscale &&
+      Math.min(layout.canvasWidth, layout.canvasHeight) * TARGET_SIZE_DOWNSCALE_STEP >= TARGET_SIZE_MIN_DIMENSION
+    ) {
+      layout = scaleLayout(layout, TARGET_SIZE_DOWNSCALE_STEP)
+      downscaled = true
+      draw(layout)
+      attempt = await encodeWithinBudget(encodeAt, preset, maxBytes)
+    }
+
+    blob = attempt.blob
+    sizeTarget = { maxBytes: budget!, quality: attempt.quality, met: attempt.met, downscaled }
+  } else {
+    blob = await encodeAt(preset.quality)
+  }
+
+  // The surface holds the last frame after an animation pass, so only stills are scored.
+  const qualityScore = animation ? undefined : await measureOutput(surface, blob, source.keepsColorProfile)
+
+  if (metadata) {
+    blob = await embedMetadata(blob, preset.format, metadata, layout.canvasWidth, layout.canvasHeight)
+  }
+
+  return {
+    blob,
+    originalWidth: source.width,
+    originalHeight: source.height,
+    outputWidth: layout.canvasWidth,
+    outputHeight: layout.canvasHeight,
+    sizeTarget,
+    qualityScore,
+    animation: source.animation && { frameCount: source.animation.frameCount, kept: Boolean(animation) },
+    metadataKept: metadata?.labels ?? [],
+    metadataDropped: fitted?.dropped ?? [],
+  }
+}
+
+export const convertSource = async (
+  source: DecodedSource,
+  preset: Preset,
+  watermarkImage?: Blob
+): Promise<ConversionOutput> => {
+  const watermark = await decodeWatermark(preset, watermarkImage)
+
+  try {
+    return await renderAndEncode(source, preset, watermark)
+  } finally {
+    watermark?.close()
+  }
+}
+
+export const convertFile = async (file: File, preset: Preset, watermarkImage?: Blob) => {
+  const source = await decodeSource(file, preset)
+
+  try {
+    return await convertSource(source, preset, watermarkImage)
+  } finally {
+    source.release()
+  }
+}
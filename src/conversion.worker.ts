@@ -0,0 +1,46 @@
+import { convertSource, decodeSource, type ConversionOutput, type Preset } from './conversion'
+
+export interface ConversionRequest {
+  id: number
+  file: File
+  preset: Preset
+  watermarkImage?: Blob
+}
+
+export type ConversionResponse =
+  | { id: number; ok: true; output: ConversionOutput }
+  | { id: number; ok: false; message: string; retryOnMainThread: boolean }
+
+const respond = (response: ConversionResponse) => {
+  self.postMessage(response)
+}
+
+self.onmessage = async (event: MessageEvent<ConversionRequest>) => {
+  const { id, file, preset, watermarkImage } = event.data
+  let source: Awaited<ReturnType<typeof decodeSource>>
+
+  try {
+    source = await decodeSource(file, preset)
+  } catch (error) {
+    respond({
+      id,
+      ok: false,
+      message: error instanceof Error ? error.message : 'We could not read this image.',
+      retryOnMainThread: true,
+    })
+    return
+  }
+
+  try {
+    respond({ id, ok: true, output: await convertSource(source, preset, watermarkImage) })
+  } catch (error) {
+    respond({
+      id,
+      ok: false,
+      message: error instanceof Error ? error.message : 'Something went wrong while converting this image.',
+      retryOnMainThread: false,
+    })
+  } finally {
+    source.release()
+  }
+}
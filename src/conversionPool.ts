@@ -0,0 +1,208 @@
+import { convertFile, type ConversionOutput, type Preset } from './conversion'
+import type { ConversionRequest, ConversionResponse } from './conversion.worker'
+
+interface PendingTask {
+  file: File
+  preset: Preset
+  watermarkImage?: Blob
+  resolve: (output: ConversionOutput) => void
+  reject: (error: Error) => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  taskId: number | null
+}
+
+export interface ConversionPool {
+  convert: (file: File, preset: Preset, signal?: AbortSignal, watermarkImage?: Blob) => Promise<ConversionOutput>
+  setSize: (size: number) => void
+  dispose: () => void
+}
+
+export const CANCELLED_MESSAGE = 'The conversion was cancelled.'
+
+export const canUseConversionWorkers = () => {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function'
+  )
+}
+
+export const getDefaultConcurrency = () => {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2
+  return Math.max(1, Math.min(4, cores - 1))
+}
+
+export const createConversionPool = (initialSize: number): ConversionPool => {
+  let size = Math.max(1, initialSize)
+  let workersAvailable = canUseConversionWorkers()
+  let nextTaskId = 1
+  const workers: PoolWorker[] = []
+  const waiting: Array<{ id: number; task: PendingTask }> = []
+  const running = new Map<number, PendingTask>()
+
+  const runOnMainThread = (task: PendingTask) => {
+    convertFile(task.file, task.preset, task.watermarkImage).then(task.resolve, (error: unknown) => {
+      task.reject(error instanceof Error ? error : new Error('Something went wrong while converting this image.'))
+    })
+  }
+
+  const abandonWorkers = () => {
+    workersAvailable = false
+    workers.splice(0).forEach(({ worker, taskId }) => {
+      worker.terminate()
+      const task = taskId === null ? undefined : running.get(taskId)
+      if (taskId !== null && task) {
+        running.delete(taskId)
+        runOnMainThread(task)
+      }
+    })
+    waiting.splice(0).forEach(({ task }) => runOnMainThread(task))
+  }
+
+  const createWorker = () => {
+    const entry: PoolWorker = {
+      worker: new Worker(new URL('./conversion.worker.ts', import.meta.url), { type: 'module' }),
+      taskId: null,
+    }
+
+    entry.worker.onmessage = (event: MessageEvent<ConversionResponse>) => {
+      const response = event.data
+      const task = running.get(response.id)
+      running.delete(response.id)
+      entry.taskId = null
+
+      if (task) {
+        if (response.ok) {
+          task.resolve(response.output)
+        } else if (response.retryOnMainThread && typeof document !== 'undefined') {
+          runOnMainThread(task)
+        } else {
+          task.reject(new Error(response.message))
+        }
+      }
+
+      pump()
+    }
+
+    entry.worker.onerror = (event) => {
+      event.preventDefault()
+      abandonWorkers()
+    }
+
+    workers.push(entry)
+    return entry
+  }
+
+  const pump = () => {
+    while (waiting.length > 0) {
+      let entry = workers.find((candidate) => candidate.taskId === null)
+      if (!entry && workers.length < size) {
+        entry = createWorker()
+      }
+
+      if (!entry) {
+        return
+      }
+
+      const next = waiting.shift()!
+      const request: ConversionRequest = {
+        id: next.id,
+        file: next.task.file,
+        preset: next.task.preset,
+        watermarkImage: next.task.watermarkImage,
+      }
+      entry.taskId = next.id
+      running.set(next.id, next.task)
+      entry.worker.postMessage(request)
+    }
+
+    trimIdleWorkers()
+  }
+
+  /** Drops a queued task, or stops the worker running it. Main-thread conversions cannot be interrupted and just finish unseen. */
+  const cancel = (id: number) => {
+    const waitingIndex = waiting.findIndex((entry) => entry.id === id)
+    if (waitingIndex >= 0) {
+      waiting.splice(waitingIndex, 1)
+      return
+    }
+
+    const workerIndex = workers.findIndex((entry) => entry.taskId === id)
+    if (workerIndex < 0) {
+      return
+    }
+
+    running.delete(id)
+    workers.splice(workerIndex, 1)[0].worker.terminate()
+    pump()
+  }
+
+  const trimIdleWorkers = () => {
+    for (let index = workers.length - 1; index >= 0 && workers.length > size; index -= 1) {
+      if (workers[index].taskId === null) {
+        workers[index].worker.terminate()
+        workers.splice(index, 1)
+      }
+    }
+  }
+
+  return {
+    convert: (file, preset, signal, watermarkImage) => {
+      return new Promise<ConversionOutput>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new Error(CANCELLED_MESSAGE))
+          return
+        }
+
+        const id = nextTaskId
+        nextTaskId += 1
+        const handleAbort = () => {
+          cancel(id)
+          reject(new Error(CANCELLED_MESSAGE))
+        }
+        // Settled tasks drop their listener, so a later abort on a shared signal does not reach them.
+        const task: PendingTask = {
+          file,
+          preset,
+          watermarkImage,
+          resolve: (output) => {
+            signal?.removeEventListener('abort', handleAbort)
+            resolve(output)
+          },
+          reject: (error) => {
+            signal?.removeEventListener('abort', handleAbort)
+            reject(error)
+          },
+        }
+        signal?.addEventListener('abort', handleAbort, { once: true })
+
+        if (!workersAvailable) {
+          runOnMainThread(task)
+          return
+        }
+
+        waiting.push({ id, task })
+
+        try {
+          pump()
+        } catch {
+          abandonWorkers()
+        }
+      })
+    },
+    setSize: (nextSize) => {
+      size = Math.max(1, nextSize)
+      trimIdleWorkers()
+      pump()
+    },
+    dispose: () => {
+      workers.splice(0).forEach(({ worker }) => worker.terminate())
+      running.forEach((task) => task.reject(new Error('The converter was closed before this image finished.')))
+      running.clear()
+      waiting.splice(0).forEach(({ task }) => task.reject(new Error('The converter was closed before this image finished.')))
+    },
+  }
+}
@@ -0,0 +1,129 @@
+export interface ReportEntry {
+  name: string
+  preset: string
+  /** 1-based width for responsive outputs, which get one entry each; null for single outputs. */
+  variant: number | null
+  originalWidth: number | null
+  originalHeight: number | null
+  outputWidth: number | null
+  outputHeight: number | null
+  originalBytes: number
+  outputBytes: number | null
+  savedPath: string | null
+  error: string | null
+}
+
+export type ReportFormat = 'csv' | 'json'
+
+export interface ReportTotals {
+  fileCount: number
+  convertedCount: number
+  outputCount: number
+  errorCount: number
+  originalBytes: number
+  outputBytes: number
+  savedBytes: number
+  savingsPercent: number | null
+}
+
+export const REPORT_FILE_STEM = 'conversion-report'
+
+const toSavingsPercent = (originalBytes: number, outputBytes: number | null) => {
+  if (outputBytes === null || originalBytes === 0) {
+    return null
+  }
+
+  return Math.round((1 - outputBytes / originalBytes) * 1000) / 10
+}
+
+export const getSavingsPercent = (entry: ReportEntry) => toSavingsPercent(entry.originalBytes, entry.outputBytes)
+
+const isSourceEntry = (entry: ReportEntry) => entry.variant === null || entry.variant === 1
+
+/**
+ * Byte totals only count converted files, so failed or pending ones do not inflate the savings. A source
+ * with several responsive outputs counts its original size once against the sum of those outputs.
+ */
+export const getReportTotals = (entries: ReportEntry[]): ReportTotals => {
+  const sources = entries.filter(isSourceEntry)
+  const outputs = entries.filter((entry) => entry.outputBytes !== null)
+  const converted = sources.filter((entry) => entry.outputBytes !== null)
+  const originalBytes = converted.reduce((total, entry) => total + entry.originalBytes, 0)
+  const outputBytes = outputs.reduce((total, entry) => total + (entry.outputBytes ?? 0), 0)
+
+  return {
+    fileCount: sources.length,
+    convertedCount: converted.length,
+    outputCount: outputs.length,
+    errorCount: sources.filter((entry) => entry.error !== null).length,
+    originalBytes,
+    outputBytes,
+    savedBytes: originalBytes - outputBytes,
+    savingsPercent: toSavingsPercent(originalBytes, converted.length > 0 ? outputBytes : null),
+  }
+}
+
+const CSV_COLUMNS: Array<{ label: string; value: (entry: ReportEntry) => string | number | null }> = [
+  { label: 'File', value: (entry) => entry.name },
+  { label: 'Preset', value: (entry) => entry.preset },
+  { label: 'Variant', value: (entry) => entry.variant },
+  { label: 'Original width', value: (entry) => entry.originalWidth },
+  { label: 'Original height', value: (entry) => entry.originalHeight },
+  { label: 'Output width', value: (entry) => entry.outputWidth },
+  { label: 'Output height', value: (entry) => entry.outputHeight },
+  { label: 'Original bytes', value: (entry) => entry.originalBytes },
+  { label: 'Output bytes', value: (entry) => entry.outputBytes },
+  { label: 'Savings %', value: getSavingsPercent },
+  { label: 'Saved to', value: (entry) => entry.savedPath },
+  { label: 'Error', value: (entry) => entry.error },
+]
+
+/** Quotes a field when it holds a delimiter, and defuses leading characters spreadsheets would run as formulas. */
+const toCsvField = (value: string | number | null) => {
+  if (value === null) {
+    return ''
+  }
+
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** One row per output file, then a totals row that reuses the same columns. */
+export const formatReportCsv = (entries: ReportEntry[]) => {
+  const totals = getReportTotals(entries)
+  const totalsRow: ReportEntry = {
+    name: `Total (${totals.convertedCount} of ${totals.fileCount} converted)`,
+    preset: '',
+    variant: null,
+    originalWidth: null,
+    originalHeight: null,
+    outputWidth: null,
+    outputHeight: null,
+    originalBytes: totals.originalBytes,
+    outputBytes: totals.convertedCount > 0 ? totals.outputBytes : null,
+    savedPath: null,
+    error: totals.errorCount > 0 ? `${totals.errorCount} failed` : null,
+  }
+  const rows = [
+    CSV_COLUMNS.map((column) => toCsvField(column.label)),
+    ...[...entries, totalsRow].map((entry) => CSV_COLUMNS.map((column) => toCsvField(column.value(entry)))),
+  ]
+
+  return `${rows.map((row) => row.join(',')).join('\r\n')}\r\n`
+}
+
+export const formatReportJson = (entries: ReportEntry[], generatedAt = new Date()) => {
+  return `${JSON.stringify(
+    {
+      generatedAt: generatedAt.toISOString(),
+      totals: getReportTotals(entries),
+      files: entries.map((entry) => ({ ...entry, savingsPercent: getSavingsPercent(entry) })),
+    },
+    null,
+    2
+  )}\n`
+}
+
+export const formatReport = (format: ReportFormat, entries: ReportEntry[], generatedAt?: Date) => {
+  return format === 'csv' ? formatReportCsv(entries) : formatReportJson(entries, generatedAt)
+}
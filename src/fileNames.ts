@@ -0,0 +1,154 @@
+export const DEFAULT_FILE_NAME_TEMPLATE = '{stem}'
+
+export const FILE_NAME_TOKENS = [
+  { token: 'stem', description: 'Original file name without its extension' },
+  { token: 'preset', description: 'Preset name' },
+  { token: 'width', description: 'Output width in pixels' },
+  { token: 'height', description: 'Output height in pixels' },
+  { token: 'quality', description: 'Quality the file was encoded at' },
+  { token: 'date', description: 'Export date as YYYY-MM-DD' },
+  { token: 'index', description: 'Position in the queue, starting at 1' },
+  { token: 'hash', description: 'First 8 characters of the SHA-256 of the output' },
+] as const
+
+export const FILE_NAME_EXAMPLES = ['{stem}-{width}w.{ext}', '{preset}/{stem}.{ext}']
+
+export type FileNameToken = (typeof FILE_NAME_TOKENS)[number]['token']
+
+export interface FileNameContext {
+  originalName: string
+  presetName: string
+  width: number
+  height: number
+  quality: number
+  date: Date
+  index: number
+  hash?: string
+}
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g
+const EXTENSION_SUFFIX = '.{ext}'
+const MAX_SEGMENT_LENGTH = 120
+const MAX_SEGMENTS = 4
+
+const stripControlCharacters = (value: string) => {
+  return Array.from(value)
+    .filter((character) => character >= ' ' && character !== '\u007f')
+    .join('')
+}
+
+export const sanitizeSegment = (value: string) => {
+  const segment = stripControlCharacters(value).replace(/[<>:"/\\|?*]/g, '-').trim()
+  return segment.replace(/\s+/g, ' ').replace(/[. ]+$/g, '').replace(/^\.+/, '').slice(0, MAX_SEGMENT_LENGTH)
+}
+
+export const sanitizeFileStem = (name: string) => {
+  return sanitizeSegment(name.replace(/\.[^.]+$/, '')) || 'converted-image'
+}
+
+const isFileNameToken = (value: string): value is FileNameToken => {
+  return FILE_NAME_TOKENS.some((entry) => entry.token === value)
+}
+
+/** A trailing `.{ext}` is accepted for readability; the output format's extension is always added anyway. */
+const stripExtensionToken = (template: string) => {
+  const trimmed = template.trim()
+  return trimmed.endsWith(EXTENSION_SUFFIX) ? trimmed.slice(0, -EXTENSION_SUFFIX.length) : trimmed
+}
+
+export const usesFileNameToken = (template: string, token: FileNameToken) => template.includes(`{${token}}`)
+
+/** Returns a message describing what is wrong with the template, or null when it is usable. */
+export const validateFileNameTemplate = (template: string) => {
+  const trimmed = stripExtensionToken(template)
+  if (!trimmed) {
+    return 'Enter a file name template, for example {stem}.'
+  }
+
+  for (const [, token] of trimmed.matchAll(TOKEN_PATTERN)) {
+    if (token === 'ext') {
+      return '{ext} can only end the file name, as .{ext}.'
+    }
+
+    if (!isFileNameToken(token)) {
+      return `{${token}} is not a known token.`
+    }
+  }
+
+  const literal = trimmed.replace(TOKEN_PATTERN, '')
+  if (/[{}]/.test(literal)) {
+    return 'Every { needs a matching }.'
+  }
+
+  if (/[<>:"|?*]/.test(literal)) {
+    return 'File names cannot contain < > : " | ? or *.'
+  }
+
+  if (/^[/\\]/.test(trimmed) || /^[a-z]:/i.test(trimmed)) {
+    return 'Use a relative name. Folders are created inside the export folder.'
+  }
+
+  const segments = trimmed.split(/[/\\]/)
+  if (segments.some((segment) => segment.trim() === '..' || segment.trim() === '.')) {
+    return 'Folder names cannot be . or ..'
+  }
+
+  if (segments.some((segment) => !segment.trim())) {
+    return 'Folder and file names cannot be empty.'
+  }
+
+  if (segments.length > MAX_SEGMENTS) {
+    return `Use at most ${MAX_SEGMENTS - 1} nested folders.`
+  }
+
+  return null
+}
+
+export const formatDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+const getTokenValue = (token: FileNameToken, context: FileNameContext) => {
+  switch (token) {
+    case 'stem':
+      return sanitizeFileStem(context.originalName)
+    case 'preset':
+      return context.presetName
+    case 'width':
+      return String(context.width)
+    case 'height':
+      return String(context.height)
+    case 'quality':
+      return String(context.quality)
+    case 'date':
+      return formatDate(context.date)
+    case 'index':
+      return String(context.index)
+    case 'hash':
+      return context.hash ?? '00000000'
+  }
+}
+
+/**
+ * Renders a template into a relative path split into folder and file segments. The `suffix`
+ * (collision counters, responsive widths) lands at the end of the file segment.
+ */
+export const renderFileName = (template: string, context: FileNameContext, extension: string, suffix = '') => {
+  const source = validateFileNameTemplate(template) ? DEFAULT_FILE_NAME_TEMPLATE : stripExtensionToken(template)
+  const segments = source.split(/[/\\]/).map((segment) =>
+    sanitizeSegment(
+      segment.replace(TOKEN_PATTERN, (match, token: string) => (isFileNameToken(token) ? getTokenValue(token, context) : match))
+    )
+  )
+  const folders = segments.slice(0, -1).map((segment) => segment || 'untitled')
+  const stem = segments.at(-1) || sanitizeFileStem(context.originalName)
+
+  return [...folders, `${stem}${suffix}.${extension}`]
+}
+
+export const hashBlob = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest).slice(0, 4), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
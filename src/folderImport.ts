@@ -0,0 +1,135 @@
+import { join } from '@tauri-apps/api/path'
+import { readDir, stat } from '@tauri-apps/plugin-fs'
+
+export const IMAGE_FILE_PATTERN = /\.(avif|bmp|gif|heic|heif|ico|jpe?g|png|svg|tiff?|webp)$/i
+export const IMAGE_FILE_EXTENSIONS = ['avif', 'bmp', 'gif', 'heic', 'heif', 'ico', 'jpg', 'jpeg', 'png', 'svg', 'tif', 'tiff', 'webp']
+
+export interface SourceFile {
+  file: File
+  relativePath?: string
+}
+
+export interface SourcePath {
+  path: string
+  relativePath?: string
+}
+
+export interface CollectedSources<T> {
+  sources: T[]
+  skippedCount: number
+}
+
+const isHiddenName = (name: string) => name.startsWith('.')
+
+const getPathName = (path: string) => path.split(/[/\\]/).filter(Boolean).at(-1) ?? path
+
+const readAllEntries = async (directory: FileSystemDirectoryEntry) => {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) {
+      return entries
+    }
+    entries.push(...batch)
+  }
+}
+
+const readEntryFile = (entry: FileSystemFileEntry) => {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+}
+
+/**
+ * Expands dropped folders into their image files. Browsers only expose folder contents through
+ * the entries API, so plain `files` is used when that is missing.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<CollectedSources<SourceFile>> => {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry?.() : null))
+    .filter((entry): entry is FileSystemEntry => Boolean(entry))
+
+  if (entries.length === 0) {
+    return collectPickedFiles(dataTransfer.files)
+  }
+
+  const sources: SourceFile[] = []
+  let skippedCount = 0
+
+  const visit = async (entry: FileSystemEntry, nested: boolean) => {
+    if (entry.isDirectory) {
+      for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+        if (!isHiddenName(child.name)) {
+          await visit(child, true)
+        }
+      }
+      return
+    }
+
+    const file = await readEntryFile(entry as FileSystemFileEntry)
+    if (!IMAGE_FILE_PATTERN.test(file.name) && !file.type.startsWith('image/')) {
+      skippedCount += 1
+      return
+    }
+
+    sources.push({ file, relativePath: nested ? entry.fullPath.replace(/^\/+/, '') : undefined })
+  }
+
+  for (const entry of entries) {
+    await visit(entry, false)
+  }
+
+  return { sources, skippedCount }
+}
+
+export const collectPickedFiles = (files: FileList | File[]): CollectedSources<SourceFile> => {
+  const incoming = Array.from(files)
+  const sources = incoming
+    .filter((file) => file.type.startsWith('image/') || IMAGE_FILE_PATTERN.test(file.name))
+    .filter((file) => !file.webkitRelativePath.split('/').some(isHiddenName))
+    .map((file) => ({ file, relativePath: file.webkitRelativePath || undefined }))
+
+  return { sources, skippedCount: incoming.length - sources.length }
+}
+
+/** Walks dropped or picked desktop paths, keeping paths relative to each chosen folder's parent. */
+export const collectPathSources = async (paths: string[]): Promise<CollectedSources<SourcePath>> => {
+  const sources: SourcePath[] = []
+  let skippedCount = 0
+
+  const visitDirectory = async (directory: string, relativeDirectory: string) => {
+    const entries = await readDir(directory)
+    entries.sort((left, right) => left.name.localeCompare(right.name))
+
+    for (const entry of entries) {
+      if (isHiddenName(entry.name) || entry.isSymlink) {
+        continue
+      }
+
+      const path = await join(directory, entry.name)
+      const relativePath = `${relativeDirectory}/${entry.name}`
+
+      if (entry.isDirectory) {
+        await visitDirectory(path, relativePath)
+      } else if (IMAGE_FILE_PATTERN.test(entry.name)) {
+        sources.push({ path, relativePath })
+      } else {
+        skippedCount += 1
+      }
+    }
+  }
+
+  for (const path of paths) {
+    const info = await stat(path).catch(() => null)
+
+    if (info?.isDirectory) {
+      await visitDirectory(path, getPathName(path))
+    } else if (IMAGE_FILE_PATTERN.test(path)) {
+      sources.push({ path })
+    } else {
+      skippedCount += 1
+    }
+  }
+
+  return { sources, skippedCount }
+}
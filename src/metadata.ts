@@ -0,0 +1,540 @@
+import type { OutputFormat } from './conversion'
+
+export type MetadataPolicy = 'strip' | 'copyright' | 'all'
+
+export interface SourceMetadata {
+  orientation: number
+  rawWidth: number | null
+  rawHeight: number | null
+  exif: Uint8Array | null
+  xmp: Uint8Array | null
+  icc: Uint8Array | null
+}
+
+export interface OutputMetadata {
+  exif: Uint8Array | null
+  xmp: Uint8Array | null
+  icc: Uint8Array | null
+  labels: string[]
+}
+
+const TAG_ORIENTATION = 0x0112
+const TAG_ARTIST = 0x013b
+const TAG_COPYRIGHT = 0x8298
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0'
+const ICC_SIGNATURE = 'ICC_PROFILE\0'
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp'
+const JPEG_MAX_SEGMENT = 65533
+const JPEG_ICC_CHUNK = 65519
+
+const textEncoder = new TextEncoder()
+const latin1Decoder = new TextDecoder('latin1')
+
+const EMPTY_METADATA: SourceMetadata = {
+  orientation: 1,
+  rawWidth: null,
+  rawHeight: null,
+  exif: null,
+  xmp: null,
+  icc: null,
+}
+
+export const readAscii = (bytes: Uint8Array, offset: number, length: number) => {
+  return latin1Decoder.decode(bytes.subarray(offset, offset + length))
+}
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: ArrayLike<number> | string) => {
+  const expected = typeof prefix === 'string' ? textEncoder.encode(prefix) : prefix
+  if (offset + expected.length > bytes.length) {
+    return false
+  }
+
+  for (let index = 0; index < expected.length; index += 1) {
+    if (bytes[offset + index] !== expected[index]) {
+      return false
+    }
+  }
+
+  return true
+}
+
+export const concatBytes = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+
+  return output
+}
+
+const transformStream = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const response = new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream))
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+interface TiffEntry {
+  tag: number
+  type: number
+  count: number
+  entryOffset: number
+}
+
+const readTiffEntries = (tiff: Uint8Array) => {
+  if (tiff.length < 8) {
+    return null
+  }
+
+  const littleEndian = tiff[0] === 0x49
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+  const ifdOffset = view.getUint32(4, littleEndian)
+  if (ifdOffset + 2 > tiff.length) {
+    return null
+  }
+
+  const entryCount = view.getUint16(ifdOffset, littleEndian)
+  const entries: TiffEntry[] = []
+
+  for (let index = 0; index < entryCount; index += 1) {
+    const entryOffset = ifdOffset + 2 + index * 12
+    if (entryOffset + 12 > tiff.length) {
+      break
+    }
+
+    entries.push({
+      tag: view.getUint16(entryOffset, littleEndian),
+      type: view.getUint16(entryOffset + 2, littleEndian),
+      count: view.getUint32(entryOffset + 4, littleEndian),
+      entryOffset,
+    })
+  }
+
+  return { view, littleEndian, entries }
+}
+
+const readOrientation = (tiff: Uint8Array) => {
+  const parsed = readTiffEntries(tiff)
+  const entry = parsed?.entries.find((candidate) => candidate.tag === TAG_ORIENTATION)
+  if (!parsed || !entry) {
+    return 1
+  }
+
+  const value = parsed.view.getUint16(entry.entryOffset + 8, parsed.littleEndian)
+  return value >= 1 && value <= 8 ? value : 1
+}
+
+const readAsciiTag = (tiff: Uint8Array, tag: number) => {
+  const parsed = readTiffEntries(tiff)
+  const entry = parsed?.entries.find((candidate) => candidate.tag === tag && candidate.type === 2)
+  if (!parsed || !entry) {
+    return null
+  }
+
+  const offset = entry.count <= 4 ? entry.entryOffset + 8 : parsed.view.getUint32(entry.entryOffset + 8, parsed.littleEndian)
+  if (offset + entry.count > tiff.length) {
+    return null
+  }
+
+  const value = new TextDecoder().decode(tiff.subarray(offset, offset + entry.count)).replace(/\0+$/, '').trim()
+  return value || null
+}
+
+const resetOrientation = (tiff: Uint8Array) => {
+  const copy = tiff.slice()
+  const parsed = readTiffEntries(copy)
+  const entry = parsed?.entries.find((candidate) => candidate.tag === TAG_ORIENTATION)
+
+  if (parsed && entry) {
+    parsed.view.setUint16(entry.entryOffset + 8, 1, parsed.littleEndian)
+  }
+
+  return copy
+}
+
+const buildAsciiTiff = (tags: Array<{ tag: number; value: string }>) => {
+  const values = tags.map(({ tag, value }) => ({ tag, bytes: concatBytes([textEncoder.encode(value), new Uint8Array([0])]) }))
+  const headerSize = 8 + 2 + values.length * 12 + 4
+  const dataSize = values.reduce((total, { bytes }) => total + (bytes.length > 4 ? bytes.length : 0), 0)
+  const tiff = new Uint8Array(headerSize + dataSize)
+  const view = new DataView(tiff.buffer)
+  let dataOffset = headerSize
+
+  tiff.set([0x49, 0x49, 0x2a, 0x00])
+  view.setUint32(4, 8, true)
+  view.setUint16(8, values.length, true)
+
+  values.forEach(({ tag, bytes }, index) => {
+    const entryOffset = 10 + index * 12
+    view.setUint16(entryOffset, tag, true)
+    view.setUint16(entryOffset + 2, 2, true)
+    view.setUint32(entryOffset + 4, bytes.length, true)
+
+    if (bytes.length <= 4) {
+      tiff.set(bytes, entryOffset + 8)
+    } else {
+      view.setUint32(entryOffset + 8, dataOffset, true)
+      tiff.set(bytes, dataOffset)
+      dataOffset += bytes.length
+    }
+  })
+
+  return tiff
+}
+
+const stripExifHeader = (payload: Uint8Array) => {
+  return startsWith(payload, 0, EXIF_HEADER) ? payload.subarray(EXIF_HEADER.length) : payload
+}
+
+const readJpegMetadata = (bytes: Uint8Array): SourceMetadata => {
+  const metadata = { ...EMPTY_METADATA }
+  const iccChunks: Array<{ sequence: number; data: Uint8Array }> = []
+  let offset = 2
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2
+      continue
+    }
+
+    if (marker === 0xda || marker === 0xd9) {
+      break
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    const payload = bytes.subarray(offset + 4, offset + 2 + length)
+
+    if (marker === 0xe1 && startsWith(payload, 0, EXIF_HEADER)) {
+      metadata.exif = payload.slice(EXIF_HEADER.length)
+    } else if (marker === 0xe1 && startsWith(payload, 0, XMP_NAMESPACE)) {
+      metadata.xmp = payload.slice(XMP_NAMESPACE.length)
+    } else if (marker === 0xe2 && startsWith(payload, 0, ICC_SIGNATURE)) {
+      iccChunks.push({ sequence: payload[ICC_SIGNATURE.length], data: payload.subarray(ICC_SIGNATURE.length + 2) })
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      metadata.rawHeight = (payload[1] << 8) | payload[2]
+      metadata.rawWidth = (payload[3] << 8) | payload[4]
+    }
+
+    offset += 2 + length
+  }
+
+  if (iccChunks.length > 0) {
+    metadata.icc = concatBytes(iccChunks.sort((left, right) => left.sequence - right.sequence).map((chunk) => chunk.data))
+  }
+
+  return metadata
+}
+
+const readPngMetadata = async (bytes: Uint8Array): Promise<SourceMetadata> => {
+  const metadata = { ...EMPTY_METADATA }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 8
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = readAscii(bytes, offset + 4, 4)
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+
+    if (type === 'IHDR') {
+      metadata.rawWidth = view.getUint32(offset + 8)
+      metadata.rawHeight = view.getUint32(offset + 12)
+    } else if (type === 'eXIf') {
+      metadata.exif = stripExifHeader(data).slice()
+    } else if (type === 'iCCP') {
+      const nameEnd = data.indexOf(0)
+      if (nameEnd > 0) {
+        metadata.icc = await transformStream(data.subarray(nameEnd + 2), new DecompressionStream('deflate')).catch(() => null)
+      }
+    } else if (type === 'iTXt' && startsWith(data, 0, `${PNG_XMP_KEYWORD}\0`)) {
+      const compressed = data[PNG_XMP_KEYWORD.length + 1] === 1
+      let textStart = PNG_XMP_KEYWORD.length + 3
+      textStart = data.indexOf(0, textStart) + 1
+      textStart = data.indexOf(0, textStart) + 1
+
+      if (textStart > 0 && !compressed) {
+        metadata.xmp = data.slice(textStart)
+      }
+    } else if (type === 'IDAT' || type === 'IEND') {
+      break
+    }
+
+    offset += 12 + length
+  }
+
+  return metadata
+}
+
+const readWebPMetadata = (bytes: Uint8Array): SourceMetadata => {
+  const metadata = { ...EMPTY_METADATA }
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4)
+    const length = bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24)
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+
+    if (type === 'VP8X') {
+      metadata.rawWidth = 1 + (data[4] | (data[5] << 8) | (data[6] << 16))
+      metadata.rawHeight = 1 + (data[7] | (data[8] << 8) | (data[9] << 16))
+    } else if (type === 'EXIF') {
+      metadata.exif = stripExifHeader(data).slice()
+    } else if (type === 'XMP ') {
+      metadata.xmp = data.slice()
+    } else if (type === 'ICCP') {
+      metadata.icc = data.slice()
+    }
+
+    offset += 8 + length + (length % 2)
+  }
+
+  return metadata
+}
+
+export const readMetadata = async (bytes: Uint8Array): Promise<SourceMetadata> => {
+  let metadata = EMPTY_METADATA
+
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      metadata = readJpegMetadata(bytes)
+    } else if (startsWith(bytes, 0, [0x89, 0x50, 0x4e, 0x47])) {
+      metadata = await readPngMetadata(bytes)
+    } else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+      metadata = readWebPMetadata(bytes)
+    }
+  } catch {
+    return EMPTY_METADATA
+  }
+
+  return {
+    ...metadata,
+    orientation: metadata.exif ? readOrientation(metadata.exif) : 1,
+  }
+}
+
+export const selectMetadata = (source: SourceMetadata, policy: MetadataPolicy, keepColorProfile: boolean): OutputMetadata => {
+  if (policy === 'strip') {
+    return { exif: null, xmp: null, icc: null, labels: [] }
+  }
+
+  if (policy === 'copyright') {
+    const tags = [
+      { tag: TAG_ARTIST, label: 'Author', value: source.exif ? readAsciiTag(source.exif, TAG_ARTIST) : null },
+      { tag: TAG_COPYRIGHT, label: 'Copyright', value: source.exif ? readAsciiTag(source.exif, TAG_COPYRIGHT) : null },
+    ].filter((entry): entry is { tag: number; label: string; value: string } => Boolean(entry.value))
+
+    return {
+      exif: tags.length > 0 ? buildAsciiTiff(tags) : null,
+      xmp: null,
+      icc: null,
+      labels: tags.map((entry) => entry.label),
+    }
+  }
+
+  const icc = keepColorProfile ? source.icc : null
+  return {
+    exif: source.exif ? resetOrientation(source.exif) : null,
+    xmp: source.xmp,
+    icc,
+    labels: [source.exif && 'EXIF', source.xmp && 'XMP', icc && 'ICC'].filter((label): label is string => Boolean(label)),
+  }
+}
+
+/**
+ * JPEG keeps EXIF and XMP in single APP1 segments of at most 64 KB. Larger ones (big thumbnails, maker
+ * notes) cannot be written there, so they are dropped here and reported instead of claimed as kept.
+ */
+export const fitMetadataToFormat = (metadata: OutputMetadata, format: OutputFormat) => {
+  if (format !== 'jpeg') {
+    return { metadata, dropped: [] }
+  }
+
+  const exifFits = !metadata.exif || EXIF_HEADER.length + metadata.exif.length <= JPEG_MAX_SEGMENT
+  const xmpFits = !metadata.xmp || XMP_NAMESPACE.length + metadata.xmp.length <= JPEG_MAX_SEGMENT
+  const fits = (label: string) => (label === 'XMP' ? xmpFits : label === 'ICC' || exifFits)
+
+  return {
+    metadata: {
+      ...metadata,
+      exif: exifFits ? metadata.exif : null,
+      xmp: xmpFits ? metadata.xmp : null,
+      labels: metadata.labels.filter(fits),
+    },
+    dropped: [exifFits ? null : 'EXIF', xmpFits ? null : 'XMP'].filter((label): label is string => Boolean(label)),
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+  }
+  return value >>> 0
+})
+
+/** Pass the previous result as `crc` to checksum data that arrives in chunks. */
+export const crc32 = (bytes: Uint8Array, crc = 0) => {
+  crc = (crc ^ 0xffffffff) >>> 0
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(textEncoder.encode(type), 4)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+const embedPng = async (bytes: Uint8Array, metadata: OutputMetadata) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const headerEnd = 8 + 12 + view.getUint32(8)
+  const chunks: Uint8Array[] = []
+
+  if (metadata.icc) {
+    const compressed = await transformStream(metadata.icc, new CompressionStream('deflate'))
+    chunks.push(pngChunk('iCCP', concatBytes([textEncoder.encode('ICC Profile\0'), new Uint8Array([0]), compressed])))
+  }
+
+  if (metadata.exif) {
+    chunks.push(pngChunk('eXIf', metadata.exif))
+  }
+
+  if (metadata.xmp) {
+    chunks.push(pngChunk('iTXt', concatBytes([textEncoder.encode(`${PNG_XMP_KEYWORD}\0\0\0\0\0`), metadata.xmp])))
+  }
+
+  return concatBytes([bytes.subarray(0, headerEnd), ...chunks, bytes.subarray(headerEnd)])
+}
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const segment = new Uint8Array(4 + payload.length)
+  segment[0] = 0xff
+  segment[1] = marker
+  segment[2] = ((payload.length + 2) >> 8) & 0xff
+  segment[3] = (payload.length + 2) & 0xff
+  segment.set(payload, 4)
+  return segment
+}
+
+const embedJpeg = (bytes: Uint8Array, metadata: OutputMetadata) => {
+  let insertAt = 2
+  while (bytes[insertAt] === 0xff && bytes[insertAt + 1] === 0xe0) {
+    insertAt += 2 + ((bytes[insertAt + 2] << 8) | bytes[insertAt + 3])
+  }
+
+  const segments: Uint8Array[] = []
+  const exifPayload = metadata.exif ? concatBytes([new Uint8Array(EXIF_HEADER), metadata.exif]) : null
+  if (exifPayload && exifPayload.length <= JPEG_MAX_SEGMENT) {
+    segments.push(jpegSegment(0xe1, exifPayload))
+  }
+
+  const xmpPayload = metadata.xmp ? concatBytes([textEncoder.encode(XMP_NAMESPACE), metadata.xmp]) : null
+  if (xmpPayload && xmpPayload.length <= JPEG_MAX_SEGMENT) {
+    segments.push(jpegSegment(0xe1, xmpPayload))
+  }
+
+  if (metadata.icc) {
+    const chunkCount = Math.ceil(metadata.icc.length / JPEG_ICC_CHUNK)
+    for (let index = 0; index < chunkCount; index += 1) {
+      const data = metadata.icc.subarray(index * JPEG_ICC_CHUNK, (index + 1) * JPEG_ICC_CHUNK)
+      segments.push(jpegSegment(0xe2, concatBytes([textEncoder.encode(ICC_SIGNATURE), new Uint8Array([index + 1, chunkCount]), data])))
+    }
+  }
+
+  return concatBytes([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)])
+}
+
+export const webpChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2))
+  const view = new DataView(chunk.buffer)
+  chunk.set(textEncoder.encode(type), 0)
+  view.setUint32(4, data.length, true)
+  chunk.set(data, 8)
+  return chunk
+}
+
+const embedWebP = (bytes: Uint8Array, metadata: OutputMetadata, width: number, height: number) => {
+  const imageChunks: Uint8Array[] = []
+  let hasAlpha = false
+  let animated = false
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const type = readAscii(bytes, offset, 4)
+    const length = new DataView(bytes.buffer, bytes.byteOffset + offset + 4, 4).getUint32(0, true)
+    const end = offset + 8 + length + (length % 2)
+
+    if (type === 'VP8X') {
+      hasAlpha = (bytes[offset + 8] & 0x10) !== 0
+      animated = (bytes[offset + 8] & 0x02) !== 0
+    } else if (type === 'VP8L') {
+      hasAlpha = ((bytes[offset + 12] >> 4) & 0x01) === 1
+      imageChunks.push(bytes.subarray(offset, end))
+    } else if (type !== 'ICCP' && type !== 'EXIF' && type !== 'XMP ') {
+      hasAlpha = hasAlpha || type === 'ALPH'
+      imageChunks.push(bytes.subarray(offset, end))
+    }
+
+    offset = end
+  }
+
+  const header = new Uint8Array(10)
+  header[0] =
+    (metadata.icc ? 0x20 : 0) |
+    (hasAlpha ? 0x10 : 0) |
+    (metadata.exif ? 0x08 : 0) |
+    (metadata.xmp ? 0x04 : 0) |
+    (animated ? 0x02 : 0)
+  header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4)
+  header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7)
+
+  const body = concatBytes([
+    textEncoder.encode('WEBP'),
+    webpChunk('VP8X', header),
+    ...(metadata.icc ? [webpChunk('ICCP', metadata.icc)] : []),
+    ...imageChunks,
+    ...(metadata.exif ? [webpChunk('EXIF', metadata.exif)] : []),
+    ...(metadata.xmp ? [webpChunk('XMP ', metadata.xmp)] : []),
+  ])
+  const riff = new Uint8Array(8 + body.length)
+  riff.set(textEncoder.encode('RIFF'))
+  new DataView(riff.buffer).setUint32(4, body.length, true)
+  riff.set(body, 8)
+  return riff
+}
+
+export const canEmbedMetadata = (format: OutputFormat) => format !== 'avif'
+
+/**
+ * Writes the selected metadata into the encoded output container. AVIF output is returned unchanged,
+ * so callers should check `canEmbedMetadata` before reporting anything as kept.
+ */
+export const embedMetadata = async (
+  blob: Blob,
+  format: OutputFormat,
+  metadata: OutputMetadata,
+  width: number,
+  height: number
+) => {
+  if (!canEmbedMetadata(format) || (!metadata.exif && !metadata.xmp && !metadata.icc)) {
+    return blob
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const output =
+    format === 'webp'
+      ? embedWebP(bytes, metadata, width, height)
+      : format === 'jpeg'
+        ? embedJpeg(bytes, metadata)
+        : await embedPng(bytes, metadata)
+
+  return new Blob([output as BlobPart], { type: blob.type })
+}
@@ -0,0 +1,90 @@
+import { invoke } from '@tauri-apps/api/core'
+import { appCacheDir, join } from '@tauri-apps/api/path'
+import { getEffectiveFit, getMaxBytes, OUTPUT_FORMATS, type ConversionOutput, type Preset } from './conversion'
+
+interface NativeConversionResult extends Omit<ConversionOutput, 'blob'> {
+  originalSize: number
+  convertedSize: number
+}
+
+interface NativeConversionError {
+  kind: 'unsupported-input' | 'encode' | 'io'
+  message: string
+}
+
+export const isTauriRuntime = () => {
+  if (typeof window === 'undefined') {
+    return false
+  }
+
+  return '__TAURI_INTERNALS__' in (window as Window & { __TAURI_INTERNALS__?: unknown })
+}
+
+const isNativeConversionError = (value: unknown): value is NativeConversionError => {
+  return typeof value === 'object' && value !== null && 'kind' in value && 'message' in value
+}
+
+export const getNativeCachePath = async (id: string, preset: Preset) => {
+  return join(await appCacheDir(), 'conversions', `${id}.${OUTPUT_FORMATS[preset.format].extension}`)
+}
+
+/**
+ * Converts a file on disk with the Rust encoder and writes the result to `outputPath`.
+ * Resolves to `null` when the native decoder cannot read the input, so callers can fall back to the canvas path.
+ */
+export const convertPathNative = async (
+  inputPath: string,
+  outputPath: string,
+  preset: Preset,
+  watermarkPath?: string
+): Promise<NativeConversionResult | null> => {
+  try {
+    return await invoke<NativeConversionResult>('convert_image', {
+      request: {
+        inputPath,
+        outputPath,
+        options: {
+          format: preset.format,
+          maxWidth: preset.maxWidth,
+          maxHeight: preset.maxHeight,
+          fit: getEffectiveFit(preset),
+          anchor: preset.anchor,
+          padColor: preset.padColor,
+          allowUpscale: preset.allowUpscale,
+          resampling: preset.resampling,
+          sharpen: preset.sharpen,
+          reducePercent: preset.reducePercent,
+          quality: preset.quality,
+          compression: preset.compression,
+          nearLossless: preset.nearLossless,
+          alphaQuality: preset.alphaQuality,
+          effort: preset.effort,
+          maxBytes: getMaxBytes(preset),
+          allowBudgetDownscale: preset.allowBudgetDownscale,
+          metadata: preset.metadata,
+          animation: preset.animation,
+          watermark:
+            preset.watermark?.kind === 'image'
+              ? {
+                  image: watermarkPath ?? '',
+                  anchor: preset.watermark.anchor,
+                  margin: preset.watermark.margin,
+                  scale: preset.watermark.scale,
+                  opacity: preset.watermark.opacity,
+                }
+              : null,
+        },
+      },
+    })
+  } catch (error) {
+    if (isNativeConversionError(error)) {
+      if (error.kind === 'unsupported-input') {
+        return null
+      }
+
+      throw new Error(error.message)
+    }
+
+    throw error instanceof Error ? error : new Error(String(error))
+  }
+}
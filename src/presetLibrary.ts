@@ -0,0 +1,190 @@
+import type { Preset } from './conversion'
+
+export const PRESET_FILE_FORMAT = 'webpeezy-presets'
+export const PRESET_SCHEMA_VERSION = 2
+export const PRESET_FILE_NAME = 'webpeezy-presets.json'
+
+export type PresetCollisionStrategy = 'merge' | 'replace' | 'duplicate'
+
+export interface PresetLibraryFile {
+  format: typeof PRESET_FILE_FORMAT
+  version: number
+  exportedAt: string
+  presets: Preset[]
+  /** Watermark images as data URLs, keyed by the `imageId` presets refer to them by. */
+  watermarks: Record<string, string>
+}
+
+export interface ParsedPresetLibrary {
+  presets: RawPreset[]
+  watermarks: Record<string, string>
+}
+
+export interface PresetImportResult {
+  presets: Preset[]
+  added: number
+  replaced: number
+  duplicated: number
+  merged: number
+}
+
+type RawPreset = Record<string, unknown>
+
+/**
+ * Upgrades presets one schema version at a time; the entry at index `n` turns version `n` into
+ * `n + 1`. Fields a version does not know about are filled in later by `normalizePreset`, so a
+ * step is only needed when an existing field changes meaning or shape.
+ */
+const PRESET_MIGRATIONS: Array<(preset: RawPreset) => RawPreset> = [
+  // Version 0 is an unversioned list, such as the one kept in local storage.
+  (preset) => preset,
+  // Version 2 added watermarks, which older presets simply do not have.
+  (preset) => preset,
+]
+
+const isRecord = (value: unknown): value is RawPreset => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export const serializePresetLibrary = (
+  presets: Preset[],
+  watermarks: Record<string, string> = {},
+  exportedAt = new Date()
+) => {
+  const library: PresetLibraryFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    presets,
+    watermarks,
+  }
+
+  return `${JSON.stringify(library, null, 2)}\n`
+}
+
+/** Reads a preset file and migrates its entries to the current schema. Throws with a readable message. */
+export const parsePresetLibrary = (text: string): ParsedPresetLibrary => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('This file is not valid JSON.')
+  }
+
+  let version = 0
+  let entries: unknown = parsed
+  const watermarks: Record<string, string> = {}
+
+  if (isRecord(parsed)) {
+    if (parsed.format !== PRESET_FILE_FORMAT || !Array.isArray(parsed.presets)) {
+      throw new Error('This file does not contain WebPeezy presets.')
+    }
+
+    if (typeof parsed.version !== 'number' || !Number.isInteger(parsed.version) || parsed.version < 0) {
+      throw new Error('This preset file has no valid schema version.')
+    }
+
+    version = parsed.version
+    entries = parsed.presets
+
+    if (isRecord(parsed.watermarks)) {
+      for (const [imageId, dataUrl] of Object.entries(parsed.watermarks)) {
+        if (typeof dataUrl === 'string') {
+          watermarks[imageId] = dataUrl
+        }
+      }
+    }
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new Error('This file does not contain WebPeezy presets.')
+  }
+
+  if (version > PRESET_SCHEMA_VERSION) {
+    throw new Error('These presets come from a newer version of WebPeezy. Update the app to import them.')
+  }
+
+  return {
+    presets: entries
+      .filter(isRecord)
+      .map((entry) => PRESET_MIGRATIONS.slice(version).reduce((preset, migrate) => migrate(preset), entry)),
+    watermarks,
+  }
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase()
+
+const findMatch = (presets: Preset[], incoming: Preset) => {
+  const byId = presets.findIndex((preset) => preset.id === incoming.id)
+  return byId >= 0 ? byId : presets.findIndex((preset) => normalizeName(preset.name) === normalizeName(incoming.name))
+}
+
+export const countPresetCollisions = (existing: Preset[], incoming: Preset[]) => {
+  return incoming.filter((preset) => findMatch(existing, preset) >= 0).length
+}
+
+const getUniqueName = (presets: Preset[], name: string) => {
+  const taken = new Set(presets.map((preset) => normalizeName(preset.name)))
+  if (!taken.has(normalizeName(name))) {
+    return name
+  }
+
+  let counter = 2
+
+  while (taken.has(normalizeName(`${name} (${counter})`))) {
+    counter += 1
+  }
+
+  return `${name} (${counter})`
+}
+
+const isSameValue = (left: unknown, right: unknown) => JSON.stringify(left) === JSON.stringify(right)
+
+/** Keeps the existing preset's id, name and custom settings, and takes the import's value for the rest. */
+const mergePreset = (current: Preset, imported: Preset, defaults: Preset): Preset => {
+  const merged: Record<string, unknown> = { ...current }
+
+  for (const [key, value] of Object.entries(imported)) {
+    const currentValue = merged[key]
+    const isUnset = currentValue === undefined || isSameValue(currentValue, defaults[key as keyof Preset])
+    if (key !== 'id' && key !== 'name' && isUnset) {
+      merged[key] = value
+    }
+  }
+
+  return merged as unknown as Preset
+}
+
+/**
+ * Adds imported presets to the library. A preset collides when its id or name is already taken:
+ * `merge` fills in the settings the existing one leaves at their defaults, `replace` overwrites its
+ * settings in place, and `duplicate` adds the import under a new id, numbering its name when that is taken.
+ */
+export const importPresets = (
+  existing: Preset[],
+  incoming: Preset[],
+  strategy: PresetCollisionStrategy,
+  defaults: Preset
+): PresetImportResult => {
+  const result: PresetImportResult = { presets: [...existing], added: 0, replaced: 0, duplicated: 0, merged: 0 }
+
+  for (const preset of incoming) {
+    const matchIndex = findMatch(result.presets, preset)
+
+    if (matchIndex < 0) {
+      result.presets.push(preset)
+      result.added += 1
+    } else if (strategy === 'merge') {
+      result.presets[matchIndex] = mergePreset(result.presets[matchIndex], preset, defaults)
+      result.merged += 1
+    } else if (strategy === 'replace') {
+      result.presets[matchIndex] = { ...preset, id: result.presets[matchIndex].id }
+      result.replaced += 1
+    } else {
+      result.presets.push({ ...preset, id: crypto.randomUUID(), name: getUniqueName(result.presets, preset.name) })
+      result.duplicated += 1
+    }
+  }
+
+  return result
+}
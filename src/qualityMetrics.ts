@@ -0,0 +1,132 @@
+export interface QualityScore {
+  ssim: number
+  psnr: number
+}
+
+export type QualityFloorAction = 'warn' | 'fail'
+
+export const MAX_PSNR = 100
+
+const SSIM_WINDOW = 8
+const SSIM_STRIDE = 4
+const SSIM_C1 = (0.01 * 255) ** 2
+const SSIM_C2 = (0.03 * 255) ** 2
+const BACKGROUND = 128
+
+/**
+ * Flattens RGBA onto mid-gray so transparent pixels compare by what a viewer would see, and
+ * returns the composited RGB plus its luma. Kept in step with `src-tauri/src/quality.rs`.
+ */
+const flatten = (pixels: Uint8ClampedArray) => {
+  const count = pixels.length / 4
+  const rgb = new Float32Array(count * 3)
+  const luma = new Float32Array(count)
+
+  for (let index = 0; index < count; index += 1) {
+    const alpha = pixels[index * 4 + 3] / 255
+    const red = pixels[index * 4] * alpha + BACKGROUND * (1 - alpha)
+    const green = pixels[index * 4 + 1] * alpha + BACKGROUND * (1 - alpha)
+    const blue = pixels[index * 4 + 2] * alpha + BACKGROUND * (1 - alpha)
+    rgb[index * 3] = red
+    rgb[index * 3 + 1] = green
+    rgb[index * 3 + 2] = blue
+    luma[index] = 0.299 * red + 0.587 * green + 0.114 * blue
+  }
+
+  return { rgb, luma }
+}
+
+const getPsnr = (reference: Float32Array, output: Float32Array) => {
+  let squaredError = 0
+  for (let index = 0; index < reference.length; index += 1) {
+    const difference = reference[index] - output[index]
+    squaredError += difference * difference
+  }
+
+  const mse = squaredError / reference.length
+  return mse === 0 ? MAX_PSNR : Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse))
+}
+
+const getWindowStarts = (size: number, window: number) => {
+  if (size <= window) {
+    return [0]
+  }
+
+  const starts: number[] = []
+  for (let start = 0; start + window <= size; start += SSIM_STRIDE) {
+    starts.push(start)
+  }
+  if (starts[starts.length - 1] + window < size) {
+    starts.push(size - window)
+  }
+  return starts
+}
+
+/** Mean SSIM of luma over 8x8 windows with a stride of 4. */
+const getSsim = (reference: Float32Array, output: Float32Array, width: number, height: number) => {
+  const windowWidth = Math.min(SSIM_WINDOW, width)
+  const windowHeight = Math.min(SSIM_WINDOW, height)
+  const area = windowWidth * windowHeight
+  let total = 0
+  let windows = 0
+
+  for (const top of getWindowStarts(height, windowHeight)) {
+    for (const left of getWindowStarts(width, windowWidth)) {
+      let sumX = 0
+      let sumY = 0
+      let sumXX = 0
+      let sumYY = 0
+      let sumXY = 0
+
+      for (let y = top; y < top + windowHeight; y += 1) {
+        for (let x = left; x < left + windowWidth; x += 1) {
+          const a = reference[y * width + x]
+          const b = output[y * width + x]
+          sumX += a
+          sumY += b
+          sumXX += a * a
+          sumYY += b * b
+          sumXY += a * b
+        }
+      }
+
+      const meanX = sumX / area
+      const meanY = sumY / area
+      const varianceX = sumXX / area - meanX * meanX
+      const varianceY = sumYY / area - meanY * meanY
+      const covariance = sumXY / area - meanX * meanY
+
+      total +=
+        ((2 * meanX * meanY + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanX * meanX + meanY * meanY + SSIM_C1) * (varianceX + varianceY + SSIM_C2))
+      windows += 1
+    }
+  }
+
+  return total / windows
+}
+
+/** Compares the resized source with the decoded output. Both must be RGBA of the same size. */
+export const measureQuality = (
+  reference: Uint8ClampedArray,
+  output: Uint8ClampedArray,
+  width: number,
+  height: number
+): QualityScore => {
+  const flatReference = flatten(reference)
+  const flatOutput = flatten(output)
+
+  return {
+    ssim: getSsim(flatReference.luma, flatOutput.luma, width, height),
+    psnr: getPsnr(flatReference.rgb, flatOutput.rgb),
+  }
+}
+
+export const formatQualityScore = (score: QualityScore) => {
+  const psnr = score.psnr >= MAX_PSNR ? 'lossless' : `${score.psnr.toFixed(1)} dB`
+  return `SSIM ${score.ssim.toFixed(4)} • PSNR ${psnr}`
+}
+
+export const isBelowQualityFloor = (score: QualityScore | undefined, minSsim: number | null) => {
+  return Boolean(score && minSsim !== null && score.ssim < minSsim)
+}
@@ -0,0 +1,211 @@
+const DATABASE_NAME = 'webpeezy'
+const DATABASE_VERSION = 1
+const SESSION_STORAGE_KEY = 'webp-queue-session'
+const SESSION_LOCK_PREFIX = 'webpeezy-session-'
+
+export interface StoredQueueRecord<T> {
+  id: string
+  /** Position in the queue; only ever grows, so removals never reshuffle what is stored. */
+  order: number
+  data: T
+}
+
+export interface QueueChanges<T> {
+  put: Array<StoredQueueRecord<T>>
+  remove: string[]
+  putBlobs: Map<string, Blob>
+  removeBlobs: string[]
+}
+
+export interface RestoredQueueSession<T> {
+  sessionId: string
+  records: Array<StoredQueueRecord<T>>
+}
+
+export interface OlderSessionSummary {
+  sessionCount: number
+  itemCount: number
+}
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+}
+
+interface SessionRecord {
+  id: string
+  updatedAt: number
+}
+
+interface ItemRecord<T> extends StoredQueueRecord<T> {
+  sessionId: string
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('The saved queue could not be read.'))
+  })
+}
+
+const transactionDone = (transaction: IDBTransaction) => {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('The queue could not be saved.'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('The queue could not be saved.'))
+  })
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser cannot keep the queue between visits.'))
+      return
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const database = request.result
+      database.createObjectStore('sessions', { keyPath: 'id' })
+      database.createObjectStore('items', { keyPath: 'id' }).createIndex('sessionId', 'sessionId')
+      database.createObjectStore('blobs')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('This browser cannot keep the queue between visits.'))
+  })
+
+  return databasePromise
+}
+
+/** Sessions another open window is using. Without Web Locks every session counts as free. */
+const getOpenSessionIds = async () => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return new Set<string>()
+  }
+
+  const { held = [] } = await navigator.locks.query()
+  return new Set(
+    held
+      .map((lock) => lock.name ?? '')
+      .filter((name) => name.startsWith(SESSION_LOCK_PREFIX))
+      .map((name) => name.slice(SESSION_LOCK_PREFIX.length))
+  )
+}
+
+/** Holds the session's lock until the window closes, so other windows leave its queue alone. */
+const claimSession = (sessionId: string) => {
+  sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId)
+  void navigator.locks?.request(`${SESSION_LOCK_PREFIX}${sessionId}`, () => new Promise<never>(() => undefined))
+}
+
+const readSessionItems = async <T>(database: IDBDatabase, sessionId: string) => {
+  const transaction = database.transaction('items', 'readonly')
+  const records = await requestToPromise(
+    transaction.objectStore('items').index('sessionId').getAll(sessionId) as IDBRequest<Array<ItemRecord<T>>>
+  )
+  return records.sort((left, right) => left.order - right.order)
+}
+
+const loadSession = async <T>(): Promise<RestoredQueueSession<T>> => {
+  const database = await openDatabase()
+  const sessions = await requestToPromise(
+    database.transaction('sessions', 'readonly').objectStore('sessions').getAll() as IDBRequest<SessionRecord[]>
+  )
+  const openSessionIds = await getOpenSessionIds()
+  const freeSessions = sessions
+    .filter((session) => !openSessionIds.has(session.id))
+    .sort((left, right) => right.updatedAt - left.updatedAt)
+  // A reload keeps its own session; a fresh start picks up the most recent one nobody else has open.
+  const reloadedId = sessionStorage.getItem(SESSION_STORAGE_KEY)
+  const previous = freeSessions.find((session) => session.id === reloadedId) ?? freeSessions[0]
+  const sessionId = previous?.id ?? crypto.randomUUID()
+
+  claimSession(sessionId)
+  const records = previous ? await readSessionItems<T>(database, sessionId) : []
+  return { sessionId, records: records.map(({ id, order, data }) => ({ id, order, data })) }
+}
+
+let sessionPromise: Promise<RestoredQueueSession<unknown>> | null = null
+
+/** Opens this window's session once, however many times it is asked for. */
+export const openQueueSession = <T>() => {
+  sessionPromise ??= loadSession()
+  return sessionPromise as Promise<RestoredQueueSession<T>>
+}
+
+export const readQueueBlobs = async (keys: string[]) => {
+  const database = await openDatabase()
+  const store = database.transaction('blobs', 'readonly').objectStore('blobs')
+  const blobs = await Promise.all(keys.map((key) => requestToPromise(store.get(key) as IDBRequest<Blob | undefined>)))
+  return new Map(keys.flatMap((key, index) => (blobs[index] ? [[key, blobs[index]] as const] : [])))
+}
+
+export const saveQueueChanges = async <T>(sessionId: string, changes: QueueChanges<T>) => {
+  const database = await openDatabase()
+  const transaction = database.transaction(['sessions', 'items', 'blobs'], 'readwrite')
+  const items = transaction.objectStore('items')
+  const blobs = transaction.objectStore('blobs')
+
+  transaction.objectStore('sessions').put({ id: sessionId, updatedAt: Date.now() } satisfies SessionRecord)
+  changes.put.forEach((record) => items.put({ ...record, sessionId } satisfies ItemRecord<T>))
+  changes.remove.forEach((id) => items.delete(id))
+  changes.putBlobs.forEach((blob, key) => blobs.put(blob, key))
+  changes.removeBlobs.forEach((key) => blobs.delete(key))
+
+  await transactionDone(transaction)
+}
+
+const getOlderSessionIds = async (database: IDBDatabase, currentSessionId: string) => {
+  const sessions = await requestToPromise(
+    database.transaction('sessions', 'readonly').objectStore('sessions').getAllKeys() as IDBRequest<string[]>
+  )
+  const openSessionIds = await getOpenSessionIds()
+  return sessions.filter((id) => id !== currentSessionId && !openSessionIds.has(id))
+}
+
+export const summarizeOlderSessions = async (currentSessionId: string): Promise<OlderSessionSummary> => {
+  const database = await openDatabase()
+  const sessionIds = await getOlderSessionIds(database, currentSessionId)
+  const index = database.transaction('items', 'readonly').objectStore('items').index('sessionId')
+  const counts = await Promise.all(sessionIds.map((id) => requestToPromise(index.count(id))))
+  return { sessionCount: sessionIds.length, itemCount: counts.reduce((total, count) => total + count, 0) }
+}
+
+/**
+ * Deletes every session except this window's and any another window has open, returning the items
+ * that went with them. `getBlobKeys` names the blobs an item refers to, since those live in their own store.
+ */
+export const purgeOlderSessions = async <T>(currentSessionId: string, getBlobKeys: (data: T) => string[]) => {
+  const database = await openDatabase()
+  const sessionIds = await getOlderSessionIds(database, currentSessionId)
+  const purged: T[] = []
+
+  for (const sessionId of sessionIds) {
+    const records = await readSessionItems<T>(database, sessionId)
+    const transaction = database.transaction(['sessions', 'items', 'blobs'], 'readwrite')
+    records.forEach((record) => {
+      transaction.objectStore('items').delete(record.id)
+      getBlobKeys(record.data).forEach((key) => transaction.objectStore('blobs').delete(key))
+    })
+    transaction.objectStore('sessions').delete(sessionId)
+    await transactionDone(transaction)
+    purged.push(...records.map((record) => record.data))
+  }
+
+  return purged
+}
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null
+  }
+
+  try {
+    const { usage, quota } = await navigator.storage.estimate()
+    return usage !== undefined && quota ? { usage, quota } : null
+  } catch {
+    return null
+  }
+}
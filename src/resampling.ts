@@ -0,0 +1,221 @@
+export type ResampleFilter = 'lanczos3' | 'mitchell' | 'bilinear' | 'halving'
+
+/** The filters worked out here in JavaScript. Bilinear and halving are left to the canvas. */
+export type ConvolutionFilter = 'lanczos3' | 'mitchell'
+
+interface FilterKernel {
+  support: number
+  weight: (x: number) => number
+}
+
+const sinc = (x: number) => {
+  if (x === 0) {
+    return 1
+  }
+
+  const angle = Math.PI * x
+  return Math.sin(angle) / angle
+}
+
+/** Mitchell–Netravali with B = C = 1/3. */
+const mitchell = (x: number) => {
+  const t = Math.abs(x)
+  const b = 1 / 3
+  const c = 1 / 3
+
+  if (t < 1) {
+    return ((12 - 9 * b - 6 * c) * t ** 3 + (-18 + 12 * b + 6 * c) * t ** 2 + (6 - 2 * b)) / 6
+  }
+
+  if (t < 2) {
+    return ((-b - 6 * c) * t ** 3 + (6 * b + 30 * c) * t ** 2 + (-12 * b - 48 * c) * t + (8 * b + 24 * c)) / 6
+  }
+
+  return 0
+}
+
+const KERNELS: Record<ConvolutionFilter, FilterKernel> = {
+  lanczos3: { support: 3, weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+  mitchell: { support: 2, weight: mitchell },
+}
+
+interface AxisWeights {
+  starts: Int32Array
+  counts: Int32Array
+  weights: Float32Array
+  stride: number
+}
+
+/** Precomputes the normalized taps each output pixel reads along one axis. */
+const getAxisWeights = (sourceSize: number, targetSize: number, kernel: FilterKernel): AxisWeights => {
+  const scale = sourceSize / targetSize
+  const filterScale = Math.max(1, scale)
+  const support = kernel.support * filterScale
+  const stride = Math.ceil(support) * 2 + 1
+  const starts = new Int32Array(targetSize)
+  const counts = new Int32Array(targetSize)
+  const weights = new Float32Array(targetSize * stride)
+
+  for (let index = 0; index < targetSize; index += 1) {
+    const center = (index + 0.5) * scale
+    const start = Math.max(0, Math.floor(center - support))
+    const end = Math.min(sourceSize, Math.ceil(center + support))
+    const count = Math.min(stride, end - start)
+    let total = 0
+
+    for (let tap = 0; tap < count; tap += 1) {
+      const weight = kernel.weight((start + tap + 0.5 - center) / filterScale)
+      weights[index * stride + tap] = weight
+      total += weight
+    }
+
+    if (total !== 0) {
+      for (let tap = 0; tap < count; tap += 1) {
+        weights[index * stride + tap] /= total
+      }
+    }
+
+    starts[index] = start
+    counts[index] = count
+  }
+
+  return { starts, counts, weights, stride }
+}
+
+/**
+ * Resizes RGBA pixels with a separable convolution. Colour is weighted by alpha so transparent
+ * pixels do not bleed dark fringes into their neighbours.
+ */
+export const resamplePixels = (
+  source: Uint8ClampedArray,
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  filter: ConvolutionFilter
+) => {
+  const kernel = KERNELS[filter]
+  const horizontal = getAxisWeights(sourceWidth, targetWidth, kernel)
+  const vertical = getAxisWeights(sourceHeight, targetHeight, kernel)
+  const rows = new Float32Array(targetWidth * sourceHeight * 4)
+  const output = new Uint8ClampedArray(targetWidth * targetHeight * 4)
+
+  for (let y = 0; y < sourceHeight; y += 1) {
+    const rowOffset = y * sourceWidth
+
+    for (let x = 0; x < targetWidth; x += 1) {
+      let red = 0
+      let green = 0
+      let blue = 0
+      let alpha = 0
+
+      for (let tap = 0; tap < horizontal.counts[x]; tap += 1) {
+        const weight = horizontal.weights[x * horizontal.stride + tap]
+        const pixel = (rowOffset + horizontal.starts[x] + tap) * 4
+        const weightedAlpha = weight * source[pixel + 3]
+        red += source[pixel] * weightedAlpha
+        green += source[pixel + 1] * weightedAlpha
+        blue += source[pixel + 2] * weightedAlpha
+        alpha += weightedAlpha
+      }
+
+      const target = (y * targetWidth + x) * 4
+      rows[target] = red
+      rows[target + 1] = green
+      rows[target + 2] = blue
+      rows[target + 3] = alpha
+    }
+  }
+
+  for (let y = 0; y < targetHeight; y += 1) {
+    for (let x = 0; x < targetWidth; x += 1) {
+      let red = 0
+      let green = 0
+      let blue = 0
+      let alpha = 0
+
+      for (let tap = 0; tap < vertical.counts[y]; tap += 1) {
+        const weight = vertical.weights[y * vertical.stride + tap]
+        const pixel = ((vertical.starts[y] + tap) * targetWidth + x) * 4
+        red += rows[pixel] * weight
+        green += rows[pixel + 1] * weight
+        blue += rows[pixel + 2] * weight
+        alpha += rows[pixel + 3] * weight
+      }
+
+      const target = (y * targetWidth + x) * 4
+      if (alpha > 0) {
+        output[target] = red / alpha
+        output[target + 1] = green / alpha
+        output[target + 2] = blue / alpha
+      }
+      output[target + 3] = alpha
+    }
+  }
+
+  return output
+}
+
+const SHARPEN_SIGMA = 1
+
+const getGaussianKernel = (sigma: number) => {
+  const radius = Math.ceil(sigma * 3)
+  const kernel = new Float32Array(radius * 2 + 1)
+  let total = 0
+
+  for (let offset = -radius; offset <= radius; offset += 1) {
+    const weight = Math.exp(-(offset * offset) / (2 * sigma * sigma))
+    kernel[offset + radius] = weight
+    total += weight
+  }
+
+  return kernel.map((weight) => weight / total)
+}
+
+/**
+ * Unsharp mask on the colour channels, in place. An amount of 1 adds back the full difference
+ * between the image and a one-pixel Gaussian blur of it.
+ */
+export const sharpenPixels = (pixels: Uint8ClampedArray, width: number, height: number, amount: number) => {
+  if (amount <= 0 || width < 3 || height < 3) {
+    return
+  }
+
+  const kernel = getGaussianKernel(SHARPEN_SIGMA)
+  const radius = (kernel.length - 1) / 2
+  const rows = new Float32Array(width * height * 3)
+  const blurred = new Float32Array(width * height * 3)
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      for (let channel = 0; channel < 3; channel += 1) {
+        let total = 0
+        for (let tap = -radius; tap <= radius; tap += 1) {
+          const sampleX = Math.min(width - 1, Math.max(0, x + tap))
+          total += pixels[(y * width + sampleX) * 4 + channel] * kernel[tap + radius]
+        }
+        rows[(y * width + x) * 3 + channel] = total
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      for (let channel = 0; channel < 3; channel += 1) {
+        let total = 0
+        for (let tap = -radius; tap <= radius; tap += 1) {
+          const sampleY = Math.min(height - 1, Math.max(0, y + tap))
+          total += rows[(sampleY * width + x) * 3 + channel] * kernel[tap + radius]
+        }
+        blurred[(y * width + x) * 3 + channel] = total
+      }
+    }
+  }
+
+  for (let index = 0; index < width * height; index += 1) {
+    for (let channel = 0; channel < 3; channel += 1) {
+      const value = pixels[index * 4 + channel]
+      pixels[index * 4 + channel] = value + (value - blurred[index * 3 + channel]) * amount
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { getEffectiveFit, OUTPUT_FORMATS, type OutputFormat, type Preset } from './conversion'
+
+export const MAX_RESPONSIVE_WIDTHS = 8
+export const DEFAULT_RESPONSIVE_SIZES = '100vw'
+
+export interface ResponsiveVariant {
+  width: number
+  preset: Preset
+}
+
+export interface ResponsiveFile {
+  fileName: string
+  width: number
+  height: number
+  size: number
+}
+
+export interface ResponsiveImageSet {
+  sourceName: string
+  presetName: string
+  format: OutputFormat
+  sizes: string
+  files: ResponsiveFile[]
+}
+
+export const normalizeResponsiveWidths = (value: unknown) => {
+  if (!Array.isArray(value)) {
+    return []
+  }
+
+  const widths = value
+    .filter((width): width is number => typeof width === 'number' && Number.isFinite(width))
+    .map((width) => Math.round(width))
+    .filter((width) => width >= 16 && width <= 16384)
+
+  return Array.from(new Set(widths))
+    .sort((left, right) => left - right)
+    .slice(0, MAX_RESPONSIVE_WIDTHS)
+}
+
+export const parseResponsiveWidths = (text: string) => {
+  return normalizeResponsiveWidths(
+    text
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map((part) => Number(part.replace(/w$/i, '')))
+  )
+}
+
+export const isResponsivePreset = (preset: Preset) => preset.responsiveWidths.length > 0
+
+/**
+ * Splits a responsive preset into one single-width preset per output. Fits that need both
+ * dimensions keep their aspect ratio by scaling the height with each width.
+ */
+export const getResponsiveVariants = (preset: Preset): ResponsiveVariant[] => {
+  const fit = getEffectiveFit(preset)
+
+  return preset.responsiveWidths.map((width) => ({
+    width,
+    preset: {
+      ...preset,
+      responsiveWidths: [],
+      reducePercent: 0,
+      maxWidth: width,
+      maxHeight:
+        fit === 'scale-down' || !preset.maxWidth || !preset.maxHeight
+          ? null
+          : Math.max(1, Math.round((preset.maxHeight * width) / preset.maxWidth)),
+    },
+  }))
+}
+
+export const getResponsiveSuffix = (width: number) => `-${width}w`
+
+const escapeAttribute = (value: string) => {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+const encodeFileName = (fileName: string) => encodeURI(fileName).replace(/,/g, '%2C')
+
+export const buildPictureSnippet = (set: ResponsiveImageSet) => {
+  const files = [...set.files].sort((left, right) => left.width - right.width)
+  const fallback = files.at(-1)
+  if (!fallback) {
+    return ''
+  }
+
+  const srcset = files.map((file) => `${encodeFileName(file.fileName)} ${file.width}w`).join(', ')
+  const alt = escapeAttribute(set.sourceName.replace(/\.[^.]+$/, ''))
+  const sizes = escapeAttribute(set.sizes)
+
+  return [
+    '<picture>',
+    `  <source type="${OUTPUT_FORMATS[set.format].mimeType}" srcset="${srcset}" sizes="${sizes}">`,
+    `  <img src="${encodeFileName(fallback.fileName)}" srcset="${srcset}" sizes="${sizes}" width="${fallback.width}" height="${fallback.height}" alt="${alt}" loading="lazy" decoding="async">`,
+    '</picture>',
+  ].join('\n')
+}
+
+export const buildResponsiveManifest = (set: ResponsiveImageSet) => {
+  return JSON.stringify(
+    {
+      source: set.sourceName,
+      preset: set.presetName,
+      format: set.format,
+      mimeType: OUTPUT_FORMATS[set.format].mimeType,
+      sizes: set.sizes,
+      files: [...set.files]
+        .sort((left, right) => left.width - right.width)
+        .map((file) => ({ file: file.fileName, width: file.width, height: file.height, bytes: file.size })),
+    },
+    null,
+    2
+  )
+}
@@ -0,0 +1,144 @@
+import { stat, watch, type UnwatchFn, type WatchEvent } from '@tauri-apps/plugin-fs'
+import { IMAGE_FILE_PATTERN } from './folderImport'
+
+export const WATCH_DEBOUNCE_MS = 1500
+export const WATCH_SETTLE_MS = 1000
+export const MAX_WATCH_LOG_ENTRIES = 60
+
+export interface WatchFolder {
+  id: string
+  path: string
+  presetId: string
+}
+
+export interface WatchLogEntry {
+  id: string
+  time: number
+  kind: 'info' | 'success' | 'error'
+  message: string
+}
+
+export interface FileSettler {
+  touch: (path: string, folder: WatchFolder) => void
+  dispose: () => void
+}
+
+const isPathInside = (path: string, directory: string) => {
+  const normalize = (value: string) => value.replace(/\\/g, '/').replace(/\/+$/, '').toLowerCase()
+  return normalize(path).startsWith(`${normalize(directory)}/`)
+}
+
+const getChangedPaths = (event: WatchEvent) => {
+  const { type } = event
+  if (type === 'any') {
+    return event.paths
+  }
+
+  if (typeof type !== 'object') {
+    return []
+  }
+
+  if ('create' in type) {
+    return type.create.kind === 'folder' ? [] : event.paths
+  }
+
+  if ('modify' in type) {
+    const { modify } = type
+    if (modify.kind === 'metadata') {
+      return []
+    }
+
+    // Renames report both the old and new path; only the new one can still be read.
+    return modify.kind === 'rename' && modify.mode === 'both' ? event.paths.slice(-1) : event.paths
+  }
+
+  return []
+}
+
+export const isWatchedImagePath = (path: string, ignoredDirectory: string | null) => {
+  const segments = path.split(/[/\\]/)
+  return (
+    IMAGE_FILE_PATTERN.test(path) &&
+    !segments.some((segment) => segment.startsWith('.')) &&
+    !(ignoredDirectory && isPathInside(path, ignoredDirectory))
+  )
+}
+
+export const getWatchRelativePath = (path: string, folder: WatchFolder) => {
+  if (!isPathInside(path, folder.path)) {
+    return undefined
+  }
+
+  const root = folder.path.split(/[/\\]/).filter(Boolean).at(-1) ?? ''
+  const rest = path.replace(/\\/g, '/').slice(folder.path.replace(/\\/g, '/').replace(/\/+$/, '').length + 1)
+  return `${root}/${rest}`
+}
+
+/**
+ * Waits until a file's size stops changing before handing it on, so exports that are still
+ * being written are not picked up half-finished.
+ */
+export const createFileSettler = (onSettled: (path: string, folder: WatchFolder) => void): FileSettler => {
+  const pending = new Map<string, { timer: number; size: number | null; folder: WatchFolder }>()
+
+  const check = async (path: string) => {
+    const entry = pending.get(path)
+    if (!entry) {
+      return
+    }
+
+    const info = await stat(path).catch(() => null)
+    if (!info || !info.isFile) {
+      pending.delete(path)
+      return
+    }
+
+    if (info.size > 0 && info.size === entry.size) {
+      pending.delete(path)
+      onSettled(path, entry.folder)
+      return
+    }
+
+    entry.size = info.size
+    entry.timer = window.setTimeout(() => void check(path), WATCH_SETTLE_MS)
+  }
+
+  return {
+    touch: (path, folder) => {
+      const entry = pending.get(path)
+      if (entry) {
+        window.clearTimeout(entry.timer)
+      }
+
+      pending.set(path, {
+        timer: window.setTimeout(() => void check(path), WATCH_SETTLE_MS),
+        size: null,
+        folder,
+      })
+    },
+    dispose: () => {
+      pending.forEach((entry) => window.clearTimeout(entry.timer))
+      pending.clear()
+    },
+  }
+}
+
+export const watchFolders = async (folders: WatchFolder[], onChange: (path: string, folder: WatchFolder) => void) => {
+  const stops: UnwatchFn[] = []
+
+  try {
+    for (const folder of folders) {
+      stops.push(
+        await watch(folder.path, (event) => getChangedPaths(event).forEach((path) => onChange(path, folder)), {
+          recursive: true,
+          delayMs: WATCH_DEBOUNCE_MS,
+        })
+      )
+    }
+  } catch (error) {
+    stops.forEach((stop) => stop())
+    throw error
+  }
+
+  return () => stops.forEach((stop) => stop())
+}
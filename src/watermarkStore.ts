@@ -0,0 +1,123 @@
+import { appDataDir, join } from '@tauri-apps/api/path'
+import { mkdir, readFile, writeFile } from '@tauri-apps/plugin-fs'
+import type { Preset } from './conversion'
+import { isTauriRuntime } from './nativeConversion'
+
+export const WATERMARK_IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+}
+
+export const MAX_WATERMARK_BYTES = 1024 * 1024
+
+const STORAGE_PREFIX = 'webp-watermark-'
+const IMAGE_ID_PATTERN = /^[\w-]+\.(png|jpg|webp)$/
+
+/** Ids double as file names, so anything read from a preset file is checked before it touches the disk. */
+export const isWatermarkImageId = (value: unknown): value is string => {
+  return typeof value === 'string' && IMAGE_ID_PATTERN.test(value)
+}
+
+const getWatermarkDirectory = async () => join(await appDataDir(), 'watermarks')
+
+const getWatermarkImagePath = async (imageId: string) => join(await getWatermarkDirectory(), imageId)
+
+const blobToDataUrl = (blob: Blob) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error('We could not read the watermark image.'))
+    reader.readAsDataURL(blob)
+  })
+}
+
+const writeWatermarkImage = async (imageId: string, image: Blob) => {
+  if (isTauriRuntime()) {
+    const directory = await getWatermarkDirectory()
+    await mkdir(directory, { recursive: true })
+    await writeFile(await join(directory, imageId), new Uint8Array(await image.arrayBuffer()))
+    return
+  }
+
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${imageId}`, await blobToDataUrl(image))
+  } catch {
+    throw new Error('There is not enough browser storage left for this watermark image.')
+  }
+}
+
+/** Keeps a chosen image in app storage and returns the id presets refer to it by. */
+export const storeWatermarkImage = async (image: Blob) => {
+  const extension = Object.keys(WATERMARK_IMAGE_TYPES).find((key) => WATERMARK_IMAGE_TYPES[key] === image.type)
+  if (!extension) {
+    throw new Error('Watermarks can be PNG, JPEG or WebP images.')
+  }
+
+  if (image.size > MAX_WATERMARK_BYTES) {
+    throw new Error('Choose a watermark image under 1 MB.')
+  }
+
+  const imageId = `${crypto.randomUUID()}.${extension}`
+  await writeWatermarkImage(imageId, image)
+  return imageId
+}
+
+export const readWatermarkImage = async (imageId: string): Promise<Blob | null> => {
+  try {
+    if (isTauriRuntime()) {
+      const data = await readFile(await getWatermarkImagePath(imageId))
+      return new Blob([data], { type: WATERMARK_IMAGE_TYPES[imageId.split('.').pop()!] })
+    }
+
+    const dataUrl = localStorage.getItem(`${STORAGE_PREFIX}${imageId}`)
+    return dataUrl ? await (await fetch(dataUrl)).blob() : null
+  } catch {
+    return null
+  }
+}
+
+/** The image an image watermark needs for conversion, or undefined when the preset has none. */
+export const readPresetWatermark = async (preset: Preset) => {
+  if (preset.watermark?.kind !== 'image' || !preset.watermark.imageId) {
+    return undefined
+  }
+
+  return (await readWatermarkImage(preset.watermark.imageId)) ?? undefined
+}
+
+export const getPresetWatermarkPath = async (preset: Preset) => {
+  return preset.watermark?.kind === 'image' && preset.watermark.imageId
+    ? getWatermarkImagePath(preset.watermark.imageId)
+    : undefined
+}
+
+/** Data URLs for the images these presets use, keyed by id, for embedding in an exported preset file. */
+export const exportWatermarkImages = async (presets: Preset[]) => {
+  const images: Record<string, string> = {}
+  const imageIds = new Set(presets.map((preset) => preset.watermark?.imageId).filter(isWatermarkImageId))
+
+  for (const imageId of imageIds) {
+    const image = await readWatermarkImage(imageId)
+    if (image) {
+      images[imageId] = await blobToDataUrl(image)
+    }
+  }
+
+  return images
+}
+
+/** Stores the images from an imported preset file under their original ids. */
+export const importWatermarkImages = async (images: Record<string, string>) => {
+  for (const [imageId, dataUrl] of Object.entries(images)) {
+    if (!isWatermarkImageId(imageId) || !dataUrl.startsWith('data:image/')) {
+      continue
+    }
+
+    try {
+      await writeWatermarkImage(imageId, await (await fetch(dataUrl)).blob())
+    } catch {
+      // A missing image only stops that preset's watermark, so the rest of the import still goes ahead.
+    }
+  }
+}
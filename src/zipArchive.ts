@@ -0,0 +1,101 @@
+import { crc32 } from './metadata'
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_VERSION = 20
+const UTF8_NAMES_FLAG = 0x0800
+const MAX_ZIP_OFFSET = 0xffffffff
+const MAX_ZIP_ENTRIES = 0xffff
+
+export interface ZipArchive {
+  add: (name: string, data: Blob | string) => Promise<void>
+  finish: () => Blob
+}
+
+const textEncoder = new TextEncoder()
+
+const checksumBlob = async (blob: Blob) => {
+  const reader = blob.stream().getReader()
+  let crc = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      return crc
+    }
+    crc = crc32(value, crc)
+  }
+}
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+/**
+ * Builds a ZIP one entry at a time. Entries are stored rather than deflated: the images are already
+ * compressed, and it lets each output Blob go into the archive as is. Checksums are read from each
+ * Blob's stream a chunk at a time, so no entry is ever copied whole into memory; the finished archive is
+ * a Blob made of those parts. Sizes stay within classic ZIP limits, so there is no ZIP64 support.
+ */
+export const createZipArchive = (modified = new Date()): ZipArchive => {
+  const parts: BlobPart[] = []
+  const centralDirectory: Uint8Array[] = []
+  const timestamp = toDosDateTime(modified)
+  let offset = 0
+
+  const writeCommonFields = (view: DataView, at: number, crc: number, size: number, nameLength: number) => {
+    view.setUint16(at, ZIP_VERSION, true)
+    view.setUint16(at + 2, UTF8_NAMES_FLAG, true)
+    view.setUint16(at + 4, 0, true)
+    view.setUint16(at + 6, timestamp.time, true)
+    view.setUint16(at + 8, timestamp.date, true)
+    view.setUint32(at + 10, crc, true)
+    view.setUint32(at + 14, size, true)
+    view.setUint32(at + 18, size, true)
+    view.setUint16(at + 22, nameLength, true)
+  }
+
+  return {
+    add: async (name, data) => {
+      const body = typeof data === 'string' ? new Blob([data]) : data
+      const nameBytes = textEncoder.encode(name)
+      const crc = await checksumBlob(body)
+
+      if (centralDirectory.length >= MAX_ZIP_ENTRIES || offset + 30 + nameBytes.length + body.size > MAX_ZIP_OFFSET) {
+        throw new Error('This batch is too big for one ZIP file. Download it in smaller groups.')
+      }
+
+      const local = new Uint8Array(30 + nameBytes.length)
+      const localView = new DataView(local.buffer)
+      localView.setUint32(0, LOCAL_FILE_HEADER, true)
+      writeCommonFields(localView, 4, crc, body.size, nameBytes.length)
+      local.set(nameBytes, 30)
+
+      const central = new Uint8Array(46 + nameBytes.length)
+      const centralView = new DataView(central.buffer)
+      centralView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+      centralView.setUint16(4, ZIP_VERSION, true)
+      writeCommonFields(centralView, 6, crc, body.size, nameBytes.length)
+      centralView.setUint32(42, offset, true)
+      central.set(nameBytes, 46)
+
+      parts.push(local, body)
+      centralDirectory.push(central)
+      offset += local.length + body.size
+    },
+    finish: () => {
+      const directorySize = centralDirectory.reduce((total, entry) => total + entry.length, 0)
+      const end = new Uint8Array(22)
+      const endView = new DataView(end.buffer)
+      endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+      endView.setUint16(8, centralDirectory.length, true)
+      endView.setUint16(10, centralDirectory.length, true)
+      endView.setUint32(12, directorySize, true)
+      endView.setUint32(16, offset, true)
+
+      return new Blob([...parts, ...centralDirectory, end] as BlobPart[], { type: 'application/zip' })
+    },
+  }
+}